@@ -21,6 +21,8 @@ type ScrollHandle = {
 };
 import {
   MarkdownStream,
+  createReplaySource,
+  createStreamRecording,
   type UseMarkdownStreamResult,
   type RevealMode,
   lightTheme,
@@ -157,12 +159,9 @@ const GradientButton = ({
 };
 
 function createDemoStream(delayMs: number) {
-  return async function* demoGenerator() {
-    for (const chunk of STREAM_CHUNKS) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-      yield chunk;
-    }
-  };
+  return createReplaySource(
+    createStreamRecording(STREAM_CHUNKS, { interval: delayMs })
+  );
 }
 
 export default function App() {
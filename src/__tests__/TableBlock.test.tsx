@@ -0,0 +1,46 @@
+import type { Table } from 'mdast';
+import { Text } from 'react-native';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { parseMarkdown } from '../core/parser';
+import { lightTheme } from '../core/themes';
+import { TableBlock } from '../renderers/TableBlock';
+
+describe('TableBlock', () => {
+  it('offers the links inside cells as accessibility actions', () => {
+    const [table] = parseMarkdown(
+      '| Name | Docs |\n| --- | --- |\n| Ada | [guide](https://example.com/guide) |\n'
+    ).children as [Table];
+    const onLinkPress = jest.fn();
+
+    let renderer: ReactTestRenderer | undefined;
+    act(() => {
+      renderer = create(
+        <TableBlock
+          rows={table.children}
+          alignments={table.align ?? []}
+          theme={lightTheme}
+          renderInlineChildren={() => [<Text key="cell">cell</Text>]}
+          onLinkPress={onLinkPress}
+        />
+      );
+    });
+
+    const body = renderer!.root.find(
+      (node) => node.props.accessibilityActions !== undefined
+    );
+    expect(body.props.accessibilityLabel).toBe(
+      'Table, 1 row, 2 columns. Columns: Name, Docs. Row 1: Name: Ada, Docs: guide. 1 link, available as actions.'
+    );
+    expect(body.props.accessibilityActions).toEqual([
+      { name: 'link-0', label: 'Open guide' },
+    ]);
+
+    act(() => {
+      body.props.onAccessibilityAction({
+        nativeEvent: { actionName: 'link-0' },
+      });
+    });
+    expect(onLinkPress).toHaveBeenCalledWith('https://example.com/guide');
+    act(() => renderer?.unmount());
+  });
+});
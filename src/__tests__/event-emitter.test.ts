@@ -0,0 +1,117 @@
+import {
+  createEventEmitterSource,
+  type EventEmitterSourceOptions,
+} from '../sources/event-emitter';
+
+type Listener = (payload: unknown) => void;
+
+class FakeEmitter {
+  readonly listeners = new Map<string, Set<Listener>>();
+
+  addListener(event: string, listener: Listener) {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit(event: string, payload?: unknown) {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  get listenerCount(): number {
+    let count = 0;
+    this.listeners.forEach((listeners) => {
+      count += listeners.size;
+    });
+    return count;
+  }
+}
+
+// React Native's emitters return a subscription instead of `removeListener`.
+class FakeNativeEmitter {
+  readonly emitter = new FakeEmitter();
+
+  addListener(event: string, listener: Listener) {
+    this.emitter.addListener(event, listener);
+    return {
+      remove: () => this.emitter.removeListener(event, listener),
+    };
+  }
+}
+
+async function collect(iterable: AsyncIterable<unknown>): Promise<unknown[]> {
+  const chunks: unknown[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('createEventEmitterSource', () => {
+  const open = (
+    emitter: FakeEmitter | FakeNativeEmitter,
+    options?: EventEmitterSourceOptions,
+    signal = new AbortController().signal
+  ) =>
+    createEventEmitterSource(
+      emitter,
+      options
+    )({ signal, attempt: 0, offset: 0 });
+
+  it('buffers events until they are read and ends on the end event', async () => {
+    const emitter = new FakeEmitter();
+    const source = open(emitter, {
+      dataEvent: 'chunk',
+      endEvent: 'done',
+      select: (payload) => (payload as { text?: string }).text,
+    });
+    emitter.emit('chunk', { text: 'Hello' });
+    emitter.emit('chunk', { other: true });
+    emitter.emit('chunk', { text: ', world' });
+    emitter.emit('done');
+
+    expect(emitter.listenerCount).toBe(0);
+    await expect(collect(source)).resolves.toEqual(['Hello', ', world']);
+  });
+
+  it('fails with the payload of the error event', async () => {
+    const emitter = new FakeEmitter();
+    const source = open(emitter);
+    emitter.emit('data', 'Partial');
+    emitter.emit('error', { message: 'Native module crashed' });
+
+    const iterator = source[Symbol.asyncIterator]();
+    await expect(iterator.next()).resolves.toEqual({
+      value: 'Partial',
+      done: false,
+    });
+    await expect(iterator.next()).rejects.toThrow(
+      '[react-native-markdown-stream] Native module crashed'
+    );
+    expect(emitter.listenerCount).toBe(0);
+  });
+
+  it('removes every listener and runs the onStart teardown on abort', async () => {
+    const native = new FakeNativeEmitter();
+    const controller = new AbortController();
+    const teardown = jest.fn();
+    const onStart = jest.fn(() => teardown);
+    const source = open(native, { onStart }, controller.signal);
+    const chunks = collect(source);
+
+    expect(onStart).toHaveBeenCalledWith(
+      expect.objectContaining({ signal: controller.signal })
+    );
+    expect(native.emitter.listenerCount).toBe(3);
+
+    controller.abort();
+
+    await expect(chunks).resolves.toEqual([]);
+    expect(native.emitter.listenerCount).toBe(0);
+    expect(teardown).toHaveBeenCalledTimes(1);
+  });
+});
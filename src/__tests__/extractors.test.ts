@@ -0,0 +1,58 @@
+import {
+  anthropicMessagesExtractor,
+  createJsonPathExtractor,
+  openAIChatExtractor,
+} from '../core/extractors';
+
+describe('createJsonPathExtractor', () => {
+  it('reads dotted paths with array indexes from objects and JSON', () => {
+    const extract = createJsonPathExtractor('choices[0].delta.content');
+    const chunk = { choices: [{ delta: { content: 'Hello' } }] };
+
+    expect(extract(chunk)).toBe('Hello');
+    expect(extract(JSON.stringify(chunk))).toBe('Hello');
+    expect(createJsonPathExtractor('[1].text')('[{}, {"text": "b"}]')).toBe(
+      'b'
+    );
+  });
+
+  it('skips chunks without a string at the path', () => {
+    const extract = createJsonPathExtractor('choices[0].delta.content');
+
+    expect(extract({ choices: [] })).toBeNull();
+    expect(extract({ choices: [{ delta: { content: 42 } }] })).toBeNull();
+    expect(extract({ choices: [{ delta: null }] })).toBeNull();
+  });
+
+  it('skips strings that are not JSON', () => {
+    expect(openAIChatExtractor('[DONE]')).toBeNull();
+    expect(openAIChatExtractor('plain text')).toBeNull();
+    expect(openAIChatExtractor('{"choices": [')).toBeNull();
+  });
+});
+
+describe('anthropicMessagesExtractor', () => {
+  it('reads the text of content block deltas', () => {
+    expect(
+      anthropicMessagesExtractor(
+        '{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}'
+      )
+    ).toBe('Hi');
+  });
+
+  it('skips every other event', () => {
+    [
+      { type: 'message_start', message: { content: [] } },
+      { type: 'content_block_start', content_block: { text: 'ignored' } },
+      { type: 'ping' },
+      {
+        type: 'content_block_delta',
+        delta: { type: 'input_json_delta', partial_json: '{' },
+      },
+      { type: 'message_stop' },
+      'event: ping',
+    ].forEach((chunk) => {
+      expect(anthropicMessagesExtractor(chunk)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { renderToHtml } from '../core/html';
+
+describe('renderToHtml', () => {
+  it('drops links whose scheme is hidden by control characters', () => {
+    const html = renderToHtml(
+      '[a](<java\tscript:alert(1)>) [b](<\u0001javascript:alert(1)>) [c](<JAVASCRIPT:alert(1)>) [d](vbscript:x)'
+    );
+
+    expect(html).not.toContain('href');
+    expect(html).toContain('a b c d');
+  });
+
+  it('keeps allowed and relative URLs', () => {
+    const html = renderToHtml(
+      '[web](https://example.com) [mail](mailto:a@example.com) [doc](/docs/a:b) [anchor](#top)'
+    );
+
+    expect(html).toContain('href="https://example.com"');
+    expect(html).toContain('href="mailto:a@example.com"');
+    expect(html).toContain('href="/docs/a:b"');
+    expect(html).toContain('href="#top"');
+  });
+
+  it('only allows data URLs for images', () => {
+    const html = renderToHtml(
+      '![ok](data:image/png;base64,AAAA)\n\n![bad](data:text/html;base64,AAAA)\n\n[link](data:image/png;base64,AAAA)'
+    );
+
+    expect(html).toContain('src="data:image/png;base64,AAAA"');
+    expect(html).not.toContain('data:text/html');
+    expect(html).not.toContain('href=');
+  });
+
+  it('escapes text and drops raw HTML', () => {
+    const html = renderToHtml('a < b & "c"\n\n<script>alert(1)</script>');
+
+    expect(html).toContain('a &lt; b &amp; &quot;c&quot;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('renders table alignment and task lists', () => {
+    const html = renderToHtml(
+      '| A | B |\n|:--|--:|\n| 1 | 2 |\n\n- [x] done\n- [ ] todo'
+    );
+
+    expect(html).toMatch(/<th style="[^"]*text-align:left[^"]*">A<\/th>/);
+    expect(html).toMatch(/<td style="[^"]*text-align:right[^"]*">2<\/td>/);
+    expect(html).toContain('<input type="checkbox" disabled checked');
+    expect(html).toMatch(/<input type="checkbox" disabled style=/);
+  });
+
+  it('applies theme colors', () => {
+    const html = renderToHtml('[a](https://a.dev)', {
+      theme: { linkColor: '#123456' },
+    });
+
+    expect(html).toContain('color:#123456');
+  });
+
+  it('renders math as TeX, MathML or with a custom renderer', () => {
+    expect(renderToHtml('$x^2$')).toContain(
+      '<span class="math math-inline">\\(x^2\\)</span>'
+    );
+    expect(renderToHtml('$x^2$', { math: 'mathml' })).toContain(
+      '<math><semantics><msup><mi>x</mi><mn>2</mn></msup>'
+    );
+    expect(
+      renderToHtml('$$\nx\n$$', {
+        renderMath: (value, { displayMode }) =>
+          `<custom display="${displayMode}">${value}</custom>`,
+      })
+    ).toContain('<custom display="true">x</custom>');
+  });
+
+  it('wraps the output in a document', () => {
+    const html = renderToHtml('Hi', { fullDocument: true, title: '<T>' });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>&lt;T&gt;</title>');
+  });
+});
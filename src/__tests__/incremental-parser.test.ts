@@ -0,0 +1,57 @@
+import { createIncrementalParser } from '../core/incremental-parser';
+import { parseMarkdown } from '../core/parser';
+
+const DOCUMENTS = [
+  '1. one\n\n2. two\n\n3. three\n',
+  '- a\n- b\n\n- c\n\n  continued\n\nAfter the list.\n',
+  '# Title\n\nFirst paragraph with **bold** and `code`.\n\nSecond\n===\n\n> quote\n> more\n\nlazy\n',
+  'Intro:\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\n    indented\n\n    code\n\nDone.\n',
+  '| A | B |\n| --- | --- |\n| 1 | 2 |\n\n$$\nx^2\n$$\n\nText with a [link](https://example.com) and ~~strike~~.\n\n---\n\nEnd.\n',
+  'Note[^1].\n\n[^1]: The note.\n\n    More note.\n\nAfter.\n',
+];
+
+describe('createIncrementalParser', () => {
+  it.each(DOCUMENTS.map((document) => [document]))(
+    'matches a full parse at every prefix of %j',
+    (document) => {
+      const parser = createIncrementalParser();
+      for (let end = 1; end <= document.length; end += 1) {
+        const prefix = document.slice(0, end);
+        // The incremental root has no position; only the blocks are compared.
+        expect(parser.parse(prefix).children).toEqual(
+          parseMarkdown(prefix).children
+        );
+      }
+    }
+  );
+
+  it('matches a full parse when text arrives in token chunks', () => {
+    const chunks = ['1. one', '\n\n2', '. two', '\n\n3', '. three'];
+    const parser = createIncrementalParser();
+    let text = '';
+    chunks.forEach((chunk) => {
+      text += chunk;
+      expect(parser.parse(text).children).toEqual(parseMarkdown(text).children);
+    });
+
+    const [list] = parser.parse(text).children;
+    expect(list?.type).toBe('list');
+    expect(list && 'children' in list ? list.children.length : 0).toBe(3);
+  });
+
+  it('reuses completed blocks', () => {
+    const parser = createIncrementalParser();
+    const first = parser.parse('One.\n\nTwo.\n\nThree.\n\nFour');
+    const second = parser.parse('One.\n\nTwo.\n\nThree.\n\nFour five');
+    expect(second.children[0]).toBe(first.children[0]);
+    expect(second.children[1]).toBe(first.children[1]);
+  });
+
+  it('reparses from scratch when the text does not extend the last input', () => {
+    const parser = createIncrementalParser();
+    parser.parse('One.\n\nTwo.\n\nThree.\n\nFour');
+    expect(parser.parse('Other.\n\nText').children).toEqual(
+      parseMarkdown('Other.\n\nText').children
+    );
+  });
+});
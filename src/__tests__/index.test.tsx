@@ -1 +1,102 @@
+import type { Content } from 'mdast';
+import { Text } from 'react-native';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { parseMarkdown } from '../core/parser';
+import { StreamBuffer } from '../core/stream-buffer';
+import type { CodeBlockProps } from '../renderers/CodeBlock';
+import { getBlockKey, isSameBlock } from '../renderers/MarkdownBlock';
+import { MarkdownRenderer } from '../renderers/MarkdownRenderer';
+
 it.todo('write a test');
+
+describe('StreamBuffer', () => {
+  it('supports length, tail and slice across cached and pending chunks', () => {
+    const buffer = new StreamBuffer('Hello');
+    buffer.append(', ');
+    expect(buffer.value).toBe('Hello, ');
+    buffer.append('wor');
+    buffer.append('ld');
+
+    expect(buffer.length).toBe(12);
+    expect(buffer.tail(4)).toBe('orld');
+    expect(buffer.tail(9)).toBe('lo, world');
+    expect(buffer.slice(-5)).toBe('world');
+    expect(buffer.slice(3, 8)).toBe('lo, w');
+    expect(buffer.slice(8, 3)).toBe('');
+    expect(buffer.value).toBe('Hello, world');
+
+    buffer.reset();
+    expect(buffer.length).toBe(0);
+    expect(buffer.value).toBe('');
+  });
+
+  it('reads the value after each of 100k appended tokens', () => {
+    const buffer = new StreamBuffer();
+    let length = 0;
+    for (let index = 0; index < 100_000; index += 1) {
+      buffer.append(index % 2 === 0 ? 'token' : ' ');
+      length = buffer.value.length;
+    }
+
+    expect(length).toBe(300_000);
+    expect(buffer.length).toBe(300_000);
+  });
+});
+
+describe('MarkdownBlock', () => {
+  // Mimics a full reparse: every update creates fresh nodes for all blocks.
+  const parseBlocks = (texts: string[]): Content[] => {
+    let offset = 0;
+    return texts.map((text) => {
+      const start = { line: 1, column: 1, offset };
+      const end = { line: 1, column: 1, offset: offset + text.length };
+      offset += text.length + 2;
+      return {
+        type: 'paragraph',
+        position: { start, end },
+        children: [{ type: 'text', value: text, position: { start, end } }],
+      };
+    });
+  };
+
+  it('only re-renders the block being streamed', () => {
+    const codeBlock = jest.fn(({ value }: CodeBlockProps) => (
+      <Text>{value}</Text>
+    ));
+    const components = { codeBlock };
+    const blockCount = 100;
+    const chunks = Array.from({ length: blockCount }, (_, index) => [
+      '```js\n',
+      `const value${index} = ${index};\n`,
+      '```\n\n',
+    ]).flat();
+
+    let text = '';
+    let renderer: ReactTestRenderer | undefined;
+    chunks.forEach((chunk) => {
+      text += chunk;
+      const element = (
+        <MarkdownRenderer ast={parseMarkdown(text)} components={components} />
+      );
+      act(() => {
+        if (renderer) {
+          renderer.update(element);
+        } else {
+          renderer = create(element);
+        }
+      });
+    });
+
+    // Each block renders once when its fence opens and once when its code
+    // arrives; closing the fence and every later update leave it untouched.
+    expect(codeBlock).toHaveBeenCalledTimes(blockCount * 2);
+    act(() => renderer?.unmount());
+  });
+
+  it('keeps keys stable when text is appended after a block', () => {
+    const [first] = parseBlocks(['Hello']);
+    const [firstAgain] = parseBlocks(['Hello', 'World']);
+    expect(getBlockKey(first!, 0)).toBe(getBlockKey(firstAgain!, 0));
+    expect(isSameBlock(first, firstAgain)).toBe(true);
+  });
+});
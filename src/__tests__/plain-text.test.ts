@@ -0,0 +1,56 @@
+import { toPlainText } from '../core/plain-text';
+
+describe('toPlainText', () => {
+  it('strips formatting and keeps the block structure', () => {
+    expect(
+      toPlainText(
+        '# Title\n\nSome **bold** and `code`.\n\n> quoted\n\n1. one\n2. two\n   - nested\n\n---'
+      )
+    ).toBe(
+      'Title\n\nSome bold and code.\n\nquoted\n\n1. one\n2. two\n  - nested'
+    );
+  });
+
+  it('renders links, code, math and tables as configured', () => {
+    const markdown =
+      '[docs](https://a.dev) $x$\n\n```js\nrun()\n```\n\n| A | B |\n| - | - |\n| 1 | 2 |';
+
+    expect(toPlainText(markdown)).toBe('docs [math]\n\n[code]\n\nA, B\n1, 2');
+    expect(
+      toPlainText(markdown, {
+        links: 'text-and-url',
+        code: 'content',
+        math: 'omit',
+        tables: 'placeholder',
+      })
+    ).toBe('docs (https://a.dev)\n\nrun()\n\n[table]');
+    expect(toPlainText(markdown, { links: 'url', singleLine: true })).toBe(
+      'https://a.dev [math] [code] A, B 1, 2'
+    );
+  });
+
+  it('handles incomplete markdown from a live stream', () => {
+    expect(toPlainText('Some **bold text')).toBe('Some bold text');
+    expect(toPlainText('See [the docs](https://a.d', { links: 'url' })).toBe(
+      'See the docs'
+    );
+  });
+
+  it('truncates at a word boundary, counting the ellipsis', () => {
+    const text = 'The quick brown fox jumps over the lazy dog';
+    expect(toPlainText(text, { maxLength: 18 })).toBe('The quick brown…');
+    expect(toPlainText(text, { maxLength: 43 })).toBe(text);
+    expect(toPlainText('Supercalifragilistic', { maxLength: 8 })).toBe(
+      'Superca…'
+    );
+    expect(toPlainText(text, { maxLength: 12, ellipsis: ' [more]' })).toBe(
+      'The [more]'
+    );
+  });
+
+  it('never splits a grapheme or exceeds maxLength', () => {
+    expect(toPlainText('👋🏽👋🏽👋🏽👋🏽', { maxLength: 3 })).toBe('👋🏽👋🏽…');
+    expect(toPlainText('Hello', { maxLength: 0 })).toBe('');
+    expect(toPlainText('Hello', { maxLength: 2, ellipsis: '...' })).toBe('He');
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  createReplaySource,
+  createStreamRecorder,
+  createStreamRecording,
+  type ReplaySourceOptions,
+} from '../core/recording';
+
+const RECORDING = createStreamRecording(['Hello', ', ', 'world'], {
+  interval: 100,
+});
+
+function replay(options?: ReplaySourceOptions, signal?: AbortSignal) {
+  const source = createReplaySource(
+    RECORDING,
+    options
+  )({
+    signal: signal ?? new AbortController().signal,
+    attempt: 0,
+    offset: 0,
+  });
+  const received: string[] = [];
+  const done = (async () => {
+    for await (const chunk of source) {
+      received.push(chunk);
+    }
+  })();
+  return { received, done };
+}
+
+describe('createStreamRecorder', () => {
+  it('captures chunks relative to the last reset', () => {
+    let now = 1000;
+    const recorder = createStreamRecorder({ now: () => now });
+    recorder.onChunk('stale');
+
+    now = 5000;
+    recorder.reset();
+    now = 5120;
+    recorder.onChunk('Hello');
+    now = 5300;
+    recorder.onChunk(' world');
+
+    const recording = recorder.getRecording();
+    expect(recording).toEqual({
+      version: 1,
+      startedAt: 5000,
+      chunks: [
+        { at: 120, text: 'Hello' },
+        { at: 300, text: ' world' },
+      ],
+    });
+
+    recording.chunks[0]!.text = 'changed';
+    expect(recorder.getRecording().chunks[0]?.text).toBe('Hello');
+  });
+});
+
+describe('createReplaySource', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reproduces the recorded gaps at 1x', async () => {
+    const { received, done } = replay();
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(received).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(received).toEqual(['Hello']);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(received).toEqual(['Hello', ', ']);
+    await jest.advanceTimersByTimeAsync(100);
+    await done;
+    expect(received).toEqual(['Hello', ', ', 'world']);
+  });
+
+  it('divides every gap by the speed', async () => {
+    const { received, done } = replay({ speed: 4 });
+
+    await jest.advanceTimersByTimeAsync(24);
+    expect(received).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(received).toEqual(['Hello']);
+    await jest.advanceTimersByTimeAsync(50);
+    await done;
+    expect(received).toEqual(['Hello', ', ', 'world']);
+  });
+
+  it('yields everything without waiting when instant', async () => {
+    const { received, done } = replay({ speed: 'instant' });
+
+    await done;
+    expect(received).toEqual(['Hello', ', ', 'world']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('rejects speeds that are not positive', () => {
+    [0, -1, NaN].forEach((speed) => {
+      expect(() => createReplaySource(RECORDING, { speed })).toThrow(
+        'Replay speed must be a positive number'
+      );
+    });
+  });
+
+  it('stops the playback on abort', async () => {
+    const controller = new AbortController();
+    const { received, done } = replay({}, controller.signal);
+
+    await jest.advanceTimersByTimeAsync(150);
+    controller.abort();
+    await done;
+
+    expect(received).toEqual(['Hello']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
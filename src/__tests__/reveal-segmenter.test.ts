@@ -0,0 +1,102 @@
+import { RevealSegmenter } from '../core/reveal-segmenter';
+
+function segment(
+  unit: 'sentence' | 'line' | 'block',
+  chunks: string[]
+): string[] {
+  const segmenter = new RevealSegmenter(unit);
+  return [
+    ...chunks.flatMap((chunk) => segmenter.push(chunk)),
+    ...segmenter.flush(),
+  ];
+}
+
+describe('RevealSegmenter', () => {
+  it('splits sentences as soon as they end', () => {
+    const segmenter = new RevealSegmenter('sentence');
+    expect(segmenter.push('Pi is 3.14 or so. It')).toEqual([
+      'Pi is 3.14 or so. ',
+    ]);
+    expect(segmenter.push(' goes on! 你好。再见')).toEqual([
+      'It goes on! ',
+      '你好。',
+    ]);
+    expect(segmenter.flush()).toEqual(['再见']);
+  });
+
+  it('releases a fenced code block as one unit', () => {
+    const text = 'Intro. Next\n```js\nconst a = 1. b = 2.\n\n```\nAfter.\n';
+    const expected = [
+      'Intro. ',
+      'Next\n',
+      '```js\nconst a = 1. b = 2.\n\n```\n',
+      'After.\n',
+    ];
+    expect(segment('sentence', [text])).toEqual(expected);
+    expect(segment('sentence', Array.from(text))).toEqual(expected);
+  });
+
+  it('keeps tables together until a non-table line arrives', () => {
+    const table = '| A | B |\n| --- | --- |\n| 1. | 2. |\n';
+    expect(segment('sentence', Array.from(`${table}\nDone.`))).toEqual([
+      table,
+      '\n',
+      'Done.',
+    ]);
+    expect(segment('line', [`${table}text\n`])).toEqual([table, 'text\n']);
+  });
+
+  it('treats a pipe line without a delimiter row as text', () => {
+    expect(segment('line', ['a | b\n', 'plain\n'])).toEqual([
+      'a | b\n',
+      'plain\n',
+    ]);
+    expect(segment('line', ['a | b\nx'])).toEqual(['a | b\n', 'x']);
+  });
+
+  it('splits blocks on blank lines and headings', () => {
+    expect(
+      segment('block', ['Para one\nstill one\n\n# Head', 'ing\nPara two'])
+    ).toEqual(['Para one\nstill one\n\n', '# Heading\n', 'Para two']);
+  });
+
+  it('keeps an open fence after releasing the held text', () => {
+    const segmenter = new RevealSegmenter('sentence');
+    expect(segmenter.push('Intro.\n```js\nconst a = 1;\n')).toEqual([
+      'Intro.\n',
+    ]);
+
+    expect(segmenter.release()).toEqual(['```js\nconst a = 1;\n']);
+    expect(segmenter.push('const b = 2;\n')).toEqual([]);
+    expect(segmenter.push('```\nAfter. Next ')).toEqual([
+      'const b = 2;\n```\n',
+      'After. ',
+    ]);
+    expect(segmenter.flush()).toEqual(['Next ']);
+  });
+
+  it('recognises a fence whose opening was released mid-line', () => {
+    const segmenter = new RevealSegmenter('sentence');
+    segmenter.push('``');
+    expect(segmenter.release()).toEqual(['``']);
+
+    expect(segmenter.push('`\ncode. More code. ')).toEqual([]);
+    expect(segmenter.push('\n```\nDone. ')).toEqual([
+      '`\ncode. More code. \n```\n',
+      'Done. ',
+    ]);
+  });
+
+  it('keeps a table after releasing the held rows', () => {
+    const segmenter = new RevealSegmenter('block');
+    segmenter.push('| A | B |\n| --- | --- |\n');
+    expect(segmenter.release()).toEqual(['| A | B |\n| --- | --- |\n']);
+
+    expect(segmenter.push('| 1 | 2 |\n')).toEqual([]);
+    expect(segmenter.push('\nText\n\n')).toEqual([
+      '| 1 | 2 |\n',
+      '\n',
+      'Text\n\n',
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+type Segmentation = typeof import('../core/segmentation');
+
+const GRAPHEMES = ['👨‍👩‍👧', '🇫🇷', '🇩🇪', '👋🏽', 'é', 'ที่', 'a', '\r\n', 'b'];
+
+describe.each([
+  ['Intl.Segmenter', false],
+  ['the fallback', true],
+])('segmentation with %s', (_name, withoutSegmenter) => {
+  const originalSegmenter = Intl.Segmenter;
+  let segmentation: Segmentation;
+
+  beforeEach(async () => {
+    if (withoutSegmenter) {
+      // Simulates runtimes without Intl.Segmenter, e.g. older Hermes builds.
+      Reflect.deleteProperty(Intl, 'Segmenter');
+    }
+    // Segmenters are cached per module, so load a fresh copy for each mode.
+    jest.resetModules();
+    segmentation = await import('../core/segmentation');
+  });
+
+  afterEach(() => {
+    Object.assign(Intl, { Segmenter: originalSegmenter });
+  });
+
+  it('keeps ZWJ sequences, flags, skin tones and combining marks together', () => {
+    expect(segmentation.splitGraphemes(GRAPHEMES.join(''))).toEqual(GRAPHEMES);
+  });
+
+  it('splits words on whitespace and punctuation', () => {
+    expect(segmentation.splitWords('Hello, world')).toEqual(
+      withoutSegmenter ? ['Hello,', ' ', 'world'] : ['Hello', ',', ' ', 'world']
+    );
+  });
+
+  it('splits CJK and Thai runs without spaces', () => {
+    expect(segmentation.splitWords('你好世界')).toEqual(
+      withoutSegmenter ? ['你', '好', '世', '界'] : ['你好', '世界']
+    );
+    expect(segmentation.splitWords('สวัสดีครับ')).toEqual(
+      withoutSegmenter
+        ? ['ส', 'วั', 'ส', 'ดี', 'ค', 'รั', 'บ']
+        : ['สวัสดี', 'ครับ']
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { createSSESource, SSEParser } from '../sources/sse';
+
+function parse(chunks: string[]) {
+  const parser = new SSEParser();
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('SSEParser', () => {
+  it('handles CRLF pairs split across chunks', () => {
+    const text = 'data: one\r\n\r\ndata: two\r\n\r\n';
+    for (let index = 1; index < text.length; index += 1) {
+      expect(
+        parse([text.slice(0, index), text.slice(index)]).map(
+          (event) => event.data
+        )
+      ).toEqual(['one', 'two']);
+    }
+    expect(parse(Array.from(text)).map((event) => event.data)).toEqual([
+      'one',
+      'two',
+    ]);
+  });
+
+  it('keeps a pending CR across empty chunks', () => {
+    expect(
+      parse(['data: a\r', '', '\ndata: b\r\n\r\n']).map((event) => event.data)
+    ).toEqual(['a\nb']);
+  });
+
+  it('joins multi-line data and keeps fields', () => {
+    expect(
+      parse([
+        ': comment\nevent: delta\nid: 7\nretry: 500\ndata: # Title\ndata:\ndata:  indented\n\n',
+        'data: next\n\n',
+      ])
+    ).toEqual([
+      { event: 'delta', data: '# Title\n\n indented', id: '7', retry: 500 },
+      { event: 'message', data: 'next', id: '7', retry: 500 },
+    ]);
+  });
+
+  it('strips a byte order mark from the start of the stream only', () => {
+    expect(parse(['\uFEFFdata: bom\n\n']).map((event) => event.data)).toEqual([
+      'bom',
+    ]);
+    expect(
+      parse(['', '\uFEFFdata: a\n\n', '\uFEFFdata: b\n\n']).map(
+        (event) => event.data
+      )
+    ).toEqual(['a']);
+  });
+
+  it('dispatches a trailing event without a blank line on flush', () => {
+    expect(parse(['data: tail']).map((event) => event.data)).toEqual(['tail']);
+  });
+});
+
+describe('createSSESource', () => {
+  const context = () => ({
+    signal: new AbortController().signal,
+    attempt: 0,
+    offset: 0,
+  });
+
+  it('stops at the done sentinel', async () => {
+    const source = createSSESource([
+      'data: Hello\n\ndata: , world\n\n',
+      'data: [DONE]\n\ndata: ignored\n\n',
+    ]);
+
+    await expect(collect(source(context()))).resolves.toEqual([
+      'Hello',
+      ', world',
+    ]);
+  });
+
+  it('filters event types but reports every event', async () => {
+    const onEvent = jest.fn();
+    const source = createSSESource(
+      ['event: ping\ndata: {}\n\nevent: delta\ndata: text\n\n'],
+      { eventTypes: ['delta'], onEvent }
+    );
+
+    await expect(collect(source(context()))).resolves.toEqual(['text']);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { texToMathML } from '../core/tex-mathml';
+
+function body(tex: string): string {
+  return texToMathML(tex)
+    .replace(/^<math><semantics>/, '')
+    .replace(/<annotation[^]*$/, '');
+}
+
+describe('texToMathML', () => {
+  it('converts fractions, roots and scripts', () => {
+    expect(body('\\frac{a+1}{b}')).toBe(
+      '<mfrac><mrow><mi>a</mi><mo>+</mo><mn>1</mn></mrow><mi>b</mi></mfrac>'
+    );
+    expect(body('\\sqrt{x}')).toBe('<msqrt><mi>x</mi></msqrt>');
+    expect(body('\\sqrt[3]{8}')).toBe('<mroot><mn>8</mn><mn>3</mn></mroot>');
+    expect(body('x_i^2')).toBe(
+      '<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>'
+    );
+    expect(body('x^2_i')).toBe(
+      '<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>'
+    );
+    expect(body('e^{-x}')).toBe(
+      '<msup><mi>e</mi><mrow><mo>-</mo><mi>x</mi></mrow></msup>'
+    );
+  });
+
+  it('maps Greek letters, operators, functions and text', () => {
+    expect(body('\\alpha \\le \\pi')).toBe(
+      '<mrow><mi>α</mi><mo>≤</mo><mi>π</mi></mrow>'
+    );
+    expect(body('\\sum_{n=1}^{\\infty} \\sin n')).toBe(
+      '<mrow><msubsup><mo>∑</mo><mrow><mi>n</mi><mo>=</mo><mn>1</mn></mrow>' +
+        '<mi>∞</mi></msubsup><mi>sin</mi><mi>n</mi></mrow>'
+    );
+    expect(body('\\text{if } x')).toBe(
+      '<mrow><mtext>if </mtext><mi>x</mi></mrow>'
+    );
+    expect(body('\\left( x \\right.')).toBe(
+      '<mrow><mo>(</mo><mi>x</mi></mrow>'
+    );
+  });
+
+  it('escapes markup and keeps the source as annotation', () => {
+    expect(texToMathML('a<b', true)).toBe(
+      '<math display="block"><semantics><mrow><mi>a</mi><mo>&lt;</mo>' +
+        '<mi>b</mi></mrow><annotation encoding="application/x-tex">' +
+        'a&lt;b</annotation></semantics></math>'
+    );
+    expect(body('\\text{<b>}')).toBe('<mtext>&lt;b&gt;</mtext>');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  createReplaceTransform,
+  flushTransforms,
+  type ChunkTransform,
+} from '../core/transforms';
+
+function run(transform: ChunkTransform, chunks: string[]): string {
+  transform.reset?.();
+  const output = chunks.map((chunk) => transform.transform(chunk)).join('');
+  return output + flushTransforms([transform]);
+}
+
+// Every way of cutting `text` into two chunks, plus one chunk per character.
+function splits(text: string): string[][] {
+  const result = [[text], Array.from(text)];
+  for (let index = 1; index < text.length; index += 1) {
+    result.push([text.slice(0, index), text.slice(index)]);
+  }
+  return result;
+}
+
+describe('createReplaceTransform', () => {
+  it('replaces matches split across chunks', () => {
+    const transform = createReplaceTransform(/sk-[a-z0-9]+/g, '[key]', {
+      maxMatchLength: 16,
+    });
+    const text = 'use sk-abc123 or sk-def456 now';
+    splits(text).forEach((chunks) => {
+      expect(run(transform, chunks)).toBe('use [key] or [key] now');
+    });
+  });
+
+  it('keeps lookbehind context', () => {
+    const transform = createReplaceTransform(/(?<=token=)\w+/g, '[redacted]', {
+      maxMatchLength: 16,
+    });
+    const text = 'url?token=abc123&x=1 and token=zzz';
+    splits(text).forEach((chunks) => {
+      expect(run(transform, chunks)).toBe(
+        'url?token=[redacted]&x=1 and token=[redacted]'
+      );
+    });
+  });
+
+  it('keeps lookbehind context once the prefix has been emitted', () => {
+    const transform = createReplaceTransform(/(?<=token=)\w+/g, '[redacted]', {
+      maxMatchLength: 8,
+    });
+    expect(
+      run(transform, ['a long prefix before token=', 'abc123 and the rest'])
+    ).toBe('a long prefix before token=[redacted] and the rest');
+  });
+
+  it('keeps lookahead and word boundary context', () => {
+    const email = createReplaceTransform(/\w+(?=@corp\.com)/g, '***', {
+      maxMatchLength: 32,
+    });
+    splits('mail alice@corp.com or bob@home.com').forEach((chunks) => {
+      expect(run(email, chunks)).toBe('mail ***@corp.com or bob@home.com');
+    });
+
+    const word = createReplaceTransform(/\bcat\b/g, 'dog', {
+      maxMatchLength: 8,
+    });
+    splits('cat concat cat.').forEach((chunks) => {
+      expect(run(word, chunks)).toBe('dog concat dog.');
+    });
+  });
+
+  it('expands replacement patterns against the match', () => {
+    const transform = createReplaceTransform(
+      /(?<scheme>myapp):\/\/(\w+)/g,
+      '$$ https://$2.example.com/$<scheme> ($&)'
+    );
+    expect(run(transform, ['open myapp://', 'home'])).toBe(
+      'open $ https://home.example.com/myapp (myapp://home)'
+    );
+  });
+
+  it('passes groups to function replacements', () => {
+    const transform = createReplaceTransform(
+      /(\d+)-(\d+)/g,
+      (_match, from, to) => `${from} to ${to}`
+    );
+    expect(run(transform, ['pages 1', '0-2', '0'])).toBe('pages 10 to 20');
+  });
+});
@@ -0,0 +1,125 @@
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import type { MarkdownStreamSourceContext } from '../core/stream-source';
+import {
+  useMarkdownConversation,
+  type UseMarkdownConversationOptions,
+} from '../hooks/useMarkdownConversation';
+
+type Conversation = ReturnType<typeof useMarkdownConversation>;
+
+async function* answer() {
+  yield 'Hello';
+}
+
+describe('useMarkdownConversation', () => {
+  let conversation: Conversation | null = null;
+  let renderer: ReactTestRenderer | undefined;
+
+  function mount(options: UseMarkdownConversationOptions = {}) {
+    function Probe() {
+      conversation = useMarkdownConversation({
+        respectReduceMotion: false,
+        ...options,
+      });
+      return null;
+    }
+    act(() => {
+      renderer = create(<Probe />);
+    });
+  }
+
+  afterEach(() => {
+    act(() => renderer?.unmount());
+    renderer = undefined;
+    conversation = null;
+  });
+
+  const current = (): Conversation => {
+    if (!conversation) {
+      throw new Error('The hook has not rendered');
+    }
+    return conversation;
+  };
+
+  it('does not regenerate from a consumed iterable', async () => {
+    mount();
+    await act(async () => {
+      current().streamAssistantMessage(answer(), { id: 'a1' });
+    });
+    await act(async () => {
+      current().stop();
+    });
+    const before = current().messages;
+
+    let result: string | null = 'unset';
+    act(() => {
+      result = current().regenerate();
+    });
+
+    expect(result).toBeNull();
+    expect(current().messages).toEqual(before);
+  });
+
+  it('regenerates from a source function', async () => {
+    mount();
+    await act(async () => {
+      current().streamAssistantMessage(() => answer(), { id: 'a1' });
+    });
+
+    let result: string | null = null;
+    await act(async () => {
+      result = current().regenerate();
+    });
+
+    expect(result).toBe('a1');
+  });
+
+  it('keeps a fully received answer that is still revealing', async () => {
+    jest.useFakeTimers();
+    try {
+      mount({ revealMode: 'word', revealDelay: 50 });
+      async function* full() {
+        yield 'The whole answer arrived already';
+      }
+      await act(async () => {
+        current().streamAssistantMessage(full(), { id: 'a1' });
+      });
+      act(() => {
+        jest.advanceTimersByTime(60);
+      });
+      expect(current().stream.status).toBe('revealing');
+
+      await act(async () => {
+        current().streamAssistantMessage(answer(), { id: 'a2' });
+      });
+      expect(current().messages[0]).toEqual({
+        id: 'a1',
+        role: 'assistant',
+        content: 'The whole answer arrived already',
+        status: 'completed',
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('cancels the request when unmounted mid-answer', async () => {
+    mount();
+    let runSignal: AbortSignal | undefined;
+    async function* pending({ signal }: MarkdownStreamSourceContext) {
+      runSignal = signal;
+      yield 'Partial';
+      await new Promise((resolve) => {
+        signal.addEventListener('abort', resolve);
+      });
+    }
+    await act(async () => {
+      current().streamAssistantMessage(pending, { id: 'a1' });
+    });
+    expect(runSignal?.aborted).toBe(false);
+
+    act(() => renderer?.unmount());
+    renderer = undefined;
+    expect(runSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import type { MarkdownStreamSourceContext } from '../core/stream-source';
+import { createReplaceTransform } from '../core/transforms';
+import {
+  useMarkdownStream,
+  type MarkdownStreamOptions,
+} from '../hooks/useMarkdownStream';
+
+type Stream = ReturnType<typeof useMarkdownStream>;
+
+function renderStream(options: MarkdownStreamOptions<string>) {
+  const result: { current: Stream | null; renders: number } = {
+    current: null,
+    renders: 0,
+  };
+  function Probe() {
+    result.current = useMarkdownStream(options);
+    result.renders += 1;
+    return null;
+  }
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = create(<Probe />);
+  });
+  return {
+    get stream(): Stream {
+      if (!result.current) {
+        throw new Error('The hook has not rendered');
+      }
+      return result.current;
+    },
+    get renders() {
+      return result.renders;
+    },
+    unmount: () => act(() => renderer?.unmount()),
+  };
+}
+
+function advance(ms: number) {
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+}
+
+describe('useMarkdownStream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('drains an adaptive backlog within maxRevealLatency', () => {
+    const view = renderStream({
+      autoStart: false,
+      revealMode: 'character',
+      revealDelay: 20,
+      revealPacing: 'adaptive',
+      maxRevealLatency: 1000,
+      respectReduceMotion: false,
+    });
+
+    const first = 'a'.repeat(2000);
+    act(() => view.stream.appendChunk(first));
+    advance(500);
+    expect(view.stream.content.length).toBeGreaterThan(0);
+    expect(view.stream.content.length).toBeLessThan(first.length);
+
+    const second = 'b'.repeat(2000);
+    act(() => view.stream.appendChunk(second));
+    advance(500);
+    expect(view.stream.content.startsWith(first)).toBe(true);
+    expect(view.stream.content.length).toBeLessThan(4000);
+
+    advance(500);
+    expect(view.stream.content).toHaveLength(first.length + second.length);
+    expect(view.stream.isRevealing).toBe(false);
+    view.unmount();
+  });
+
+  it('reveals one token per tick with fixed pacing', () => {
+    const view = renderStream({
+      autoStart: false,
+      revealMode: 'character',
+      revealDelay: 20,
+      respectReduceMotion: false,
+    });
+
+    act(() => view.stream.appendChunk('abcdef'));
+    // Three ticks plus one frame for the batched update.
+    advance(70);
+    expect(view.stream.content).toBe('abc');
+    advance(60);
+    expect(view.stream.content).toBe('abcdef');
+    view.unmount();
+  });
+
+  it('publishes live metrics with the batched content update', () => {
+    const view = renderStream({ autoStart: false, respectReduceMotion: false });
+    const renders = view.renders;
+
+    for (let index = 0; index < 5; index += 1) {
+      act(() => view.stream.appendChunk('chunk '));
+    }
+    expect(view.renders).toBe(renders);
+
+    advance(16);
+    expect(view.renders).toBe(renders + 1);
+    expect(view.stream.content).toBe('chunk '.repeat(5));
+    expect(view.stream.metrics.chunkCount).toBe(5);
+    expect(view.stream.metrics.characterCount).toBe(30);
+    view.unmount();
+  });
+
+  it('does not retry an iterable source', async () => {
+    async function* failing() {
+      yield 'partial ';
+      throw new Error('connection lost');
+    }
+    const view = renderStream({
+      source: failing(),
+      respectReduceMotion: false,
+    });
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(view.stream.status).toBe('errored');
+    expect(view.stream.canRetry).toBe(false);
+
+    await act(() => view.stream.retry());
+    expect(view.stream.status).toBe('errored');
+    view.unmount();
+  });
+
+  it('aborts a manually started run on unmount', async () => {
+    let runSignal: AbortSignal | undefined;
+    async function* source({ signal }: MarkdownStreamSourceContext) {
+      runSignal = signal;
+      yield 'Hello';
+      await new Promise((resolve) => {
+        signal.addEventListener('abort', resolve);
+      });
+    }
+    const view = renderStream({ autoStart: false, respectReduceMotion: false });
+
+    await act(async () => {
+      void view.stream.start(source);
+    });
+    expect(view.stream.isStreaming).toBe(true);
+    expect(runSignal?.aborted).toBe(false);
+
+    view.unmount();
+    expect(runSignal?.aborted).toBe(true);
+  });
+
+  it('keeps text held back by transforms when the run fails or stops', async () => {
+    const answer = 'Short answer without any key in it';
+    async function* failing() {
+      yield answer;
+      throw new Error('connection lost');
+    }
+    const failed = renderStream({
+      source: failing,
+      transforms: [createReplaceTransform(/sk-\w+/g, '[key]')],
+      respectReduceMotion: false,
+    });
+    await act(async () => {
+      await Promise.resolve();
+    });
+    advance(16);
+    expect(failed.stream.status).toBe('errored');
+    expect(failed.stream.fullContent).toBe(answer);
+    failed.unmount();
+
+    async function* pending({ signal }: MarkdownStreamSourceContext) {
+      yield answer;
+      await new Promise((resolve) => {
+        signal.addEventListener('abort', resolve);
+      });
+    }
+    const stopped = renderStream({
+      autoStart: false,
+      transforms: [createReplaceTransform(/sk-\w+/g, '[key]')],
+      respectReduceMotion: false,
+    });
+    await act(async () => {
+      void stopped.stream.start(pending);
+    });
+    act(() => stopped.stream.stop());
+    advance(16);
+    expect(stopped.stream.status).toBe('cancelled');
+    expect(stopped.stream.fullContent).toBe(answer);
+    stopped.unmount();
+  });
+  it('freezes the reveal while paused and drains it after resume', () => {
+    const view = renderStream({
+      autoStart: false,
+      revealMode: 'character',
+      revealDelay: 20,
+      respectReduceMotion: false,
+    });
+
+    act(() => view.stream.appendChunk('abcdef'));
+    advance(50);
+    const revealed = view.stream.content;
+    expect(revealed.length).toBeGreaterThan(0);
+
+    act(() => view.stream.pause());
+    advance(500);
+    expect(view.stream.isPaused).toBe(true);
+    expect(view.stream.content).toBe(revealed);
+
+    act(() => view.stream.resume());
+    advance(500);
+    expect(view.stream.isPaused).toBe(false);
+    expect(view.stream.content).toBe('abcdef');
+    view.unmount();
+  });
+
+  describe('with a paused source', () => {
+    let pulls = 0;
+    let finished = false;
+    let gates: Array<() => void> = [];
+
+    async function* source() {
+      try {
+        for (const chunk of ['one ', 'two ', 'three']) {
+          pulls += 1;
+          await new Promise<void>((resolve) => gates.push(resolve));
+          yield chunk;
+        }
+      } finally {
+        finished = true;
+      }
+    }
+
+    const openGate = () =>
+      act(async () => {
+        gates.shift()?.();
+      });
+
+    beforeEach(() => {
+      pulls = 0;
+      finished = false;
+      gates = [];
+    });
+
+    it('stops pulling chunks until resume with pauseSource', async () => {
+      const view = renderStream({
+        autoStart: false,
+        respectReduceMotion: false,
+      });
+      await act(async () => {
+        void view.stream.start(source);
+      });
+      act(() => view.stream.pause());
+
+      await openGate();
+      advance(100);
+      expect(pulls).toBe(1);
+      expect(view.stream.status).toBe('paused');
+
+      await act(async () => view.stream.resume());
+      expect(pulls).toBe(2);
+      await openGate();
+      await openGate();
+      advance(16);
+      expect(view.stream.status).toBe('completed');
+      expect(view.stream.content).toBe('one two three');
+      view.unmount();
+    });
+
+    it('keeps pulling chunks while paused without pauseSource', async () => {
+      const view = renderStream({
+        autoStart: false,
+        pauseSource: false,
+        respectReduceMotion: false,
+      });
+      await act(async () => {
+        void view.stream.start(source);
+      });
+      act(() => view.stream.pause());
+
+      await openGate();
+      expect(pulls).toBe(2);
+      view.unmount();
+    });
+
+    it('releases the paused run when stopped', async () => {
+      const view = renderStream({
+        autoStart: false,
+        respectReduceMotion: false,
+      });
+      let started: Promise<void> | undefined;
+      await act(async () => {
+        started = view.stream.start(source);
+      });
+      act(() => view.stream.pause());
+      await openGate();
+
+      await act(async () => {
+        view.stream.stop();
+        await started;
+      });
+      expect(finished).toBe(true);
+      expect(pulls).toBe(1);
+      expect(view.stream.isPaused).toBe(false);
+      expect(view.stream.status).toBe('cancelled');
+      view.unmount();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Utf8StreamDecoder } from '../core/utf8-decoder';
+
+const TEXT = 'a é 中文 👋🏽 z';
+const BYTES = new TextEncoder().encode(TEXT);
+const MALFORMED = [
+  [0xff, 0x61],
+  [0xc0, 0xaf],
+  [0xe0, 0x80, 0x80, 0x61],
+  [0xed, 0xa0, 0x80],
+  [0xf4, 0x90, 0x80, 0x80],
+  [0xe4, 0xb8, 0x61],
+  [0xf0, 0x9f, 0x91],
+];
+
+function decodeChunks(chunks: Uint8Array[]): string {
+  const decoder = new Utf8StreamDecoder();
+  return (
+    chunks.map((chunk) => decoder.decode(chunk)).join('') + decoder.flush()
+  );
+}
+
+function byteChunks(bytes: Uint8Array): Uint8Array[] {
+  return Array.from(bytes, (byte) => Uint8Array.of(byte));
+}
+
+describe.each([
+  ['TextDecoder', false],
+  ['the JS fallback', true],
+])('Utf8StreamDecoder with %s', (_name, withoutTextDecoder) => {
+  const originalTextDecoder = global.TextDecoder;
+
+  beforeEach(() => {
+    if (withoutTextDecoder) {
+      // Simulates runtimes without TextDecoder, e.g. Hermes.
+      Reflect.deleteProperty(globalThis, 'TextDecoder');
+    }
+  });
+
+  afterEach(() => {
+    global.TextDecoder = originalTextDecoder;
+  });
+
+  it('holds back code points split across chunks', () => {
+    for (let index = 1; index < BYTES.length; index += 1) {
+      expect(
+        decodeChunks([BYTES.subarray(0, index), BYTES.subarray(index)])
+      ).toBe(TEXT);
+    }
+    expect(decodeChunks(byteChunks(BYTES))).toBe(TEXT);
+  });
+
+  it('never emits half of a code point before it completes', () => {
+    const decoder = new Utf8StreamDecoder();
+    expect(decoder.decode(Uint8Array.of(0xf0, 0x9f))).toBe('');
+    expect(decoder.decode(Uint8Array.of(0x91))).toBe('');
+    expect(decoder.decode(Uint8Array.of(0x8b, 0x21))).toBe('👋!');
+  });
+
+  it('replaces a truncated sequence on flush', () => {
+    const decoder = new Utf8StreamDecoder();
+    expect(decoder.decode(Uint8Array.of(0x61, 0xe4, 0xb8))).toBe('a');
+    expect(decoder.flush()).toBe('�');
+    expect(decoder.decode(Uint8Array.of(0x62))).toBe('b');
+  });
+
+  it('replaces malformed input like TextDecoder', () => {
+    MALFORMED.forEach((sequence) => {
+      const bytes = Uint8Array.from(sequence);
+      const expected = new originalTextDecoder().decode(bytes);
+      expect(decodeChunks([bytes])).toBe(expected);
+      expect(decodeChunks(byteChunks(bytes))).toBe(expected);
+    });
+  });
+});
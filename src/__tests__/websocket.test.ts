@@ -0,0 +1,154 @@
+import {
+  createWebSocketSource,
+  WebSocketSourceError,
+  type WebSocketSourceRequest,
+} from '../sources/websocket';
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static last: FakeWebSocket | null = null;
+
+  readyState = FakeWebSocket.CONNECTING;
+  binaryType = 'blob';
+  sent: string[] = [];
+  closeCode: number | null = null;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message?: string }) => void) | null = null;
+  onclose: ((event: { code?: number; reason?: string }) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    readonly protocols?: string | string[]
+  ) {
+    FakeWebSocket.last = this;
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close(code: number) {
+    this.closeCode = code;
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data });
+  }
+
+  closeFromServer(code: number, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+}
+
+async function collect(iterable: AsyncIterable<unknown>): Promise<unknown[]> {
+  const chunks: unknown[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('createWebSocketSource', () => {
+  const originalWebSocket = global.WebSocket;
+
+  beforeEach(() => {
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    global.WebSocket = originalWebSocket;
+  });
+
+  const open = (
+    request: Partial<WebSocketSourceRequest> = {},
+    signal = new AbortController().signal
+  ) => {
+    const source = createWebSocketSource({
+      url: 'wss://example.com',
+      ...request,
+    })({ signal, attempt: 0, offset: 0 });
+    const socket = FakeWebSocket.last;
+    if (!socket) {
+      throw new Error('No socket was opened');
+    }
+    return { source, socket };
+  };
+
+  it('buffers messages until they are read and ends on a clean close', async () => {
+    const { source, socket } = open({ message: { prompt: 'Hi' } });
+    socket.open();
+    socket.receive('Hello');
+    socket.receive(new TextEncoder().encode(', world').buffer);
+    socket.closeFromServer(1000);
+
+    expect(socket.binaryType).toBe('arraybuffer');
+    expect(socket.sent).toEqual(['{"prompt":"Hi"}']);
+    await expect(collect(source)).resolves.toEqual([
+      'Hello',
+      new TextEncoder().encode(', world'),
+    ]);
+  });
+
+  it('ends and closes the socket when isDone matches', async () => {
+    const { source, socket } = open({ isDone: (data) => data === '[DONE]' });
+    socket.open();
+    socket.receive('Hello');
+    socket.receive('[DONE]');
+    socket.receive('ignored');
+
+    await expect(collect(source)).resolves.toEqual(['Hello']);
+    expect(socket.closeCode).toBe(1000);
+  });
+
+  it('fails on an abnormal close after the buffered messages', async () => {
+    const { source, socket } = open();
+    socket.open();
+    socket.receive('Partial');
+    socket.closeFromServer(1006, 'gone');
+
+    const iterator = source[Symbol.asyncIterator]();
+    await expect(iterator.next()).resolves.toEqual({
+      value: 'Partial',
+      done: false,
+    });
+    const error = await iterator.next().catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(WebSocketSourceError);
+    expect(error).toMatchObject({ code: 1006, reason: 'gone' });
+  });
+
+  it('fails on an error event', async () => {
+    const { source, socket } = open();
+    socket.onerror?.({ message: 'refused' });
+
+    await expect(collect(source)).rejects.toMatchObject({
+      name: 'WebSocketSourceError',
+      code: null,
+      message: '[react-native-markdown-stream] WebSocket error: refused',
+    });
+  });
+
+  it('closes the socket and detaches from the signal on abort', async () => {
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+    const { source, socket } = open({}, controller.signal);
+    socket.open();
+    const chunks = collect(source);
+
+    controller.abort();
+
+    await expect(chunks).resolves.toEqual([]);
+    expect(socket.closeCode).toBe(1000);
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
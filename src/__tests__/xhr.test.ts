@@ -0,0 +1,98 @@
+import { createXHRSource, XHRSourceError } from '../sources/xhr';
+
+class FakeXHR {
+  static readonly UNSENT = 0;
+  static readonly OPENED = 1;
+  static readonly HEADERS_RECEIVED = 2;
+  static readonly LOADING = 3;
+  static readonly DONE = 4;
+  static last: FakeXHR | null = null;
+
+  readyState = FakeXHR.UNSENT;
+  status = 0;
+  responseText = '';
+  responseType = '';
+  withCredentials = false;
+  timeout = 0;
+  onprogress: (() => void) | null = null;
+  onreadystatechange: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+
+  constructor() {
+    FakeXHR.last = this;
+  }
+
+  open() {
+    this.readyState = FakeXHR.OPENED;
+  }
+
+  setRequestHeader() {}
+
+  send() {}
+
+  abort() {}
+
+  receive(readyState: number, status: number, text = this.responseText) {
+    this.readyState = readyState;
+    this.status = status;
+    this.responseText = text;
+    this.onreadystatechange?.();
+    if (readyState === FakeXHR.LOADING) {
+      this.onprogress?.();
+    }
+  }
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('createXHRSource', () => {
+  const originalXHR = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    global.XMLHttpRequest = FakeXHR as unknown as typeof XMLHttpRequest;
+  });
+
+  afterEach(() => {
+    global.XMLHttpRequest = originalXHR;
+  });
+
+  const open = () =>
+    createXHRSource({ url: 'https://example.com' })({
+      signal: new AbortController().signal,
+      attempt: 0,
+      offset: 0,
+    });
+
+  it('yields the newly received text', async () => {
+    const chunks = collect(open());
+    const xhr = FakeXHR.last!;
+    xhr.receive(FakeXHR.HEADERS_RECEIVED, 200);
+    xhr.receive(FakeXHR.LOADING, 200, 'Hello');
+    xhr.receive(FakeXHR.LOADING, 200, 'Hello, world');
+    xhr.receive(FakeXHR.DONE, 200);
+
+    await expect(chunks).resolves.toEqual(['Hello', ', world']);
+  });
+
+  it('never yields the body of a failed response', async () => {
+    const iterator = open()[Symbol.asyncIterator]();
+    const xhr = FakeXHR.last!;
+    xhr.receive(FakeXHR.HEADERS_RECEIVED, 500);
+    xhr.receive(FakeXHR.LOADING, 500, '{"error":');
+    xhr.receive(FakeXHR.DONE, 500, '{"error":"overloaded"}');
+
+    const error = await iterator.next().catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(XHRSourceError);
+    expect(error).toMatchObject({
+      status: 500,
+      responseText: '{"error":"overloaded"}',
+    });
+  });
+});
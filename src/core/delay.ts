@@ -0,0 +1,21 @@
+/**
+ * Resolves after `ms` milliseconds, or as soon as `signal` aborts.
+ */
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', handleAbort);
+  });
+}
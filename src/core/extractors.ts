@@ -0,0 +1,82 @@
+/**
+ * Pulls the markdown text out of a raw stream chunk. Returning `null`,
+ * `undefined` or an empty string skips the chunk.
+ */
+export type ChunkExtractor = (chunk: unknown) => string | null | undefined;
+
+const JSON_PATH_SEGMENT = /[^.[\]]+|\[(\d+)\]/g;
+
+function parseJsonChunk(chunk: unknown): unknown {
+  if (typeof chunk !== 'string') {
+    return chunk;
+  }
+
+  const trimmed = chunk.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const match of path.matchAll(JSON_PATH_SEGMENT)) {
+    const [segment, index] = match;
+    segments.push(index != null ? Number(index) : segment);
+  }
+  return segments;
+}
+
+function readPath(value: unknown, segments: Array<string | number>): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (current == null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Creates an extractor that reads a string at a dotted path such as
+ * `choices[0].delta.content`. Chunks may be objects or JSON strings.
+ */
+export function createJsonPathExtractor(path: string): ChunkExtractor {
+  const segments = parsePath(path);
+
+  return (chunk) => {
+    const value = readPath(parseJsonChunk(chunk), segments);
+    return typeof value === 'string' ? value : null;
+  };
+}
+
+/**
+ * Reads `choices[0].delta.content` from chat-completion style chunks.
+ */
+export const openAIChatExtractor: ChunkExtractor = createJsonPathExtractor(
+  'choices[0].delta.content'
+);
+
+/**
+ * Reads `delta.text` from `content_block_delta` events of messages-style
+ * streams and skips every other event type.
+ */
+export const anthropicMessagesExtractor: ChunkExtractor = (chunk) => {
+  const event = parseJsonChunk(chunk) as
+    | { type?: unknown; delta?: { type?: unknown; text?: unknown } }
+    | null
+    | undefined;
+
+  if (event?.type !== 'content_block_delta') {
+    return null;
+  }
+
+  const text = event.delta?.text;
+  return typeof text === 'string' ? text : null;
+};
@@ -0,0 +1,69 @@
+export interface FrameScheduler {
+  /**
+   * Requests a commit. Calls made before it runs are coalesced into one.
+   */
+  schedule: () => void;
+  /**
+   * Runs a pending commit right away.
+   */
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Coalesces state commits to at most one per animation frame, or at most
+ * `maxUpdatesPerSecond` when given. Falls back to a 16ms timer where
+ * `requestAnimationFrame` is unavailable.
+ */
+export function createFrameScheduler(
+  commit: () => void,
+  getMaxUpdatesPerSecond: () => number | undefined
+): FrameScheduler {
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastCommitAt = 0;
+
+  const cancel = () => {
+    if (frame != null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    if (timer != null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const run = () => {
+    cancel();
+    lastCommitAt = Date.now();
+    commit();
+  };
+
+  return {
+    schedule() {
+      if (frame != null || timer != null) {
+        return;
+      }
+
+      const rate = getMaxUpdatesPerSecond();
+      if (rate != null && rate > 0) {
+        const wait = Math.max(0, lastCommitAt + 1000 / rate - Date.now());
+        timer = setTimeout(run, wait);
+        return;
+      }
+
+      if (typeof requestAnimationFrame === 'function') {
+        frame = requestAnimationFrame(run);
+        return;
+      }
+      timer = setTimeout(run, 16);
+    },
+    flush() {
+      if (frame != null || timer != null) {
+        run();
+      }
+    },
+    cancel,
+  };
+}
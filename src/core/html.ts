@@ -0,0 +1,374 @@
+import type {
+  AlignType,
+  Content,
+  List,
+  ListItem,
+  Root,
+  Table,
+  TableCell,
+} from 'mdast';
+import { parseMarkdown } from './parser';
+import { INCOMPLETE_LINK_PLACEHOLDER } from './incomplete-markdown';
+import { texToMathML } from './tex-mathml';
+import {
+  resolveTheme,
+  type MarkdownTheme,
+  type ThemePreference,
+} from './themes';
+
+export type HtmlMathMode = 'tex' | 'mathml';
+
+export interface RenderToHtmlOptions {
+  theme?: ThemePreference;
+  /**
+   * `tex` (default) keeps the TeX source in `math-inline` / `math-display`
+   * elements for KaTeX or MathJax auto-render. `mathml` converts common TeX
+   * (fractions, roots, scripts, Greek letters, operators) to MathML for mail
+   * clients without scripts; use `renderMath` for full TeX coverage.
+   */
+  math?: HtmlMathMode;
+  /**
+   * Custom math renderer, e.g. `katex.renderToString`. Takes precedence over
+   * `math` and must return safe HTML.
+   */
+  renderMath?: (value: string, options: { displayMode: boolean }) => string;
+  /**
+   * Wraps the output in a complete HTML document.
+   */
+  fullDocument?: boolean;
+  /**
+   * Document title when `fullDocument` is set.
+   */
+  title?: string;
+}
+
+interface HtmlContext {
+  theme: MarkdownTheme;
+  options: RenderToHtmlOptions;
+}
+
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+const MONOSPACE_FONT_FAMILY = "Menlo, Consolas, 'Courier New', monospace";
+
+// Mirrors the heading sizes of MarkdownRenderer.
+const HEADING_SIZES: Record<number, [number, number]> = {
+  1: [28, 34],
+  2: [24, 30],
+  3: [20, 26],
+  4: [18, 24],
+  5: [16, 22],
+  6: [16, 22],
+};
+
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+const SAFE_IMAGE_DATA_PATTERN = /^data:image\/(png|gif|jpe?g|webp);/i;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function style(declarations: Record<string, string | number | undefined>) {
+  const css = Object.entries(declarations)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}:${value}`)
+    .join(';');
+  return css ? ` style="${escapeHtml(css)}"` : '';
+}
+
+function isVisibleColor(color: string) {
+  return color !== '' && color !== 'transparent';
+}
+
+// Browsers drop spaces and control characters when reading a URL scheme, so
+// `java\tscript:` still runs as `javascript:`.
+function stripUrlControlCharacters(url: string): string {
+  let result = '';
+  for (const char of url) {
+    const code = char.charCodeAt(0);
+    if (code > 0x20 && code !== 0x7f) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Allows relative URLs and an allowlist of schemes (plus `data:` images for
+ * `src`); anything else is dropped.
+ */
+function safeUrl(url: string, allowImageData = false): string | null {
+  const normalized = stripUrlControlCharacters(url);
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1]?.toLowerCase();
+  if (scheme == null || SAFE_URL_SCHEMES.has(scheme)) {
+    return url;
+  }
+  if (
+    allowImageData &&
+    scheme === 'data' &&
+    SAFE_IMAGE_DATA_PATTERN.test(normalized)
+  ) {
+    return url;
+  }
+  return null;
+}
+
+function renderChildren(children: Content[], context: HtmlContext): string {
+  return children.map((child) => renderNode(child, context)).join('');
+}
+
+function renderMath(
+  value: string,
+  displayMode: boolean,
+  context: HtmlContext
+): string {
+  const { theme, options } = context;
+  const boxStyle = displayMode
+    ? style({
+        'background-color': theme.codeBackgroundColor,
+        'border': `1px solid ${theme.codeBorderColor}`,
+        'border-radius': '8px',
+        'padding': '12px',
+        'margin': '8px 0',
+        'overflow-x': 'auto',
+      })
+    : '';
+
+  if (options.renderMath) {
+    const html = options.renderMath(value, { displayMode });
+    return displayMode ? `<div${boxStyle}>${html}</div>` : html;
+  }
+
+  if (options.math === 'mathml') {
+    const math = texToMathML(value, displayMode);
+    return displayMode ? `<div${boxStyle}>${math}</div>` : math;
+  }
+
+  return displayMode
+    ? `<div class="math math-display"${boxStyle}>\\[${escapeHtml(value)}\\]</div>`
+    : `<span class="math math-inline">\\(${escapeHtml(value)}\\)</span>`;
+}
+
+function renderListItem(item: ListItem, context: HtmlContext): string {
+  const checkbox =
+    item.checked == null
+      ? ''
+      : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}${style(
+          { 'margin': '0 6px 0 0', 'vertical-align': 'middle' }
+        )}> `;
+  // Tight list items render their paragraphs without margins.
+  const content = item.spread
+    ? renderChildren(item.children as Content[], context)
+    : (item.children as Content[])
+        .map((child) =>
+          child.type === 'paragraph'
+            ? renderChildren(child.children as Content[], context)
+            : renderNode(child, context)
+        )
+        .join('');
+  return `<li${style({
+    'margin-bottom': '6px',
+    'list-style-type': item.checked == null ? undefined : 'none',
+  })}>${checkbox}${content}</li>`;
+}
+
+function renderList(list: List, context: HtmlContext): string {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const start =
+    list.ordered && list.start != null && list.start !== 1
+      ? ` start="${list.start}"`
+      : '';
+  const items = list.children
+    .map((item) => renderListItem(item, context))
+    .join('');
+  return `<${tag}${start}${style({
+    'margin': '8px 0',
+    'padding-left': '24px',
+  })}>${items}</${tag}>`;
+}
+
+function renderTableCell(
+  cell: TableCell,
+  align: AlignType | undefined,
+  isHeader: boolean,
+  context: HtmlContext
+): string {
+  const { theme } = context;
+  const tag = isHeader ? 'th' : 'td';
+  return `<${tag}${style({
+    'padding': '8px 12px',
+    'text-align': align ?? 'left',
+    'font-weight': isHeader ? 600 : undefined,
+    'border-bottom': isHeader
+      ? `1px solid ${theme.tableHeavyBorderColor}`
+      : `0.5px solid ${theme.tableLightBorderColor}`,
+  })}>${renderChildren(cell.children as Content[], context)}</${tag}>`;
+}
+
+function renderTable(table: Table, context: HtmlContext): string {
+  const alignments = table.align ?? [];
+  const [header, ...body] = table.children;
+  const renderRow = (
+    row: NonNullable<typeof header>,
+    isHeader: boolean
+  ): string =>
+    `<tr>${row.children
+      .map((cell, index) =>
+        renderTableCell(cell, alignments[index] ?? undefined, isHeader, context)
+      )
+      .join('')}</tr>`;
+
+  const head = header ? `<thead>${renderRow(header, true)}</thead>` : '';
+  const rows = body.length
+    ? `<tbody>${body.map((row) => renderRow(row, false)).join('')}</tbody>`
+    : '';
+  return `<table${style({
+    'border-collapse': 'collapse',
+    'border': `1px solid ${context.theme.tableHeavyBorderColor}`,
+    'margin': '12px 0',
+  })}>${head}${rows}</table>`;
+}
+
+function renderNode(node: Content, context: HtmlContext): string {
+  const { theme } = context;
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.value);
+    case 'strong':
+      return `<strong>${renderChildren(node.children as Content[], context)}</strong>`;
+    case 'emphasis':
+      return `<em>${renderChildren(node.children as Content[], context)}</em>`;
+    case 'delete':
+      return `<del>${renderChildren(node.children as Content[], context)}</del>`;
+    case 'break':
+      return '<br>';
+    case 'inlineCode':
+      return `<code${style({
+        'font-family': MONOSPACE_FONT_FAMILY,
+        'font-size': '14px',
+        'padding': '2px 4px',
+        'border-radius': '4px',
+        'background-color': theme.codeBackgroundColor,
+        'color': theme.codeTextColor,
+      })}>${escapeHtml(node.value)}</code>`;
+    case 'link': {
+      const label = renderChildren(node.children as Content[], context);
+      const href =
+        node.url === INCOMPLETE_LINK_PLACEHOLDER ? null : safeUrl(node.url);
+      if (href == null) {
+        return label;
+      }
+      const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${title}${style({
+        'color': theme.linkColor,
+        'text-decoration': 'underline',
+      })}>${label}</a>`;
+    }
+    case 'image': {
+      const src = safeUrl(node.url, true);
+      if (src == null) {
+        return escapeHtml(node.alt ?? '');
+      }
+      return `<img src="${escapeHtml(src)}" alt="${escapeHtml(
+        node.alt ?? ''
+      )}"${style({ 'max-width': '100%', 'border-radius': '8px' })}>`;
+    }
+    case 'inlineMath':
+      return renderMath(node.value, false, context);
+    case 'paragraph':
+      return `<p${style({ margin: '0 0 12px' })}>${renderChildren(
+        node.children as Content[],
+        context
+      )}</p>`;
+    case 'heading': {
+      const [fontSize, lineHeight] = HEADING_SIZES[node.depth] ?? [18, 24];
+      return `<h${node.depth}${style({
+        'margin': '12px 0',
+        'font-size': `${fontSize}px`,
+        'line-height': `${lineHeight}px`,
+        'font-weight': 700,
+      })}>${renderChildren(node.children as Content[], context)}</h${
+        node.depth
+      }>`;
+    }
+    case 'code': {
+      const language = node.lang
+        ? ` class="language-${escapeHtml(node.lang)}"`
+        : '';
+      return `<pre${style({
+        'margin': '8px 0',
+        'padding': '10px 12px',
+        'border': `1px solid ${theme.codeBorderColor}`,
+        'border-radius': '8px',
+        'background-color': theme.codeBackgroundColor,
+        'color': theme.codeTextColor,
+        'font-family': MONOSPACE_FONT_FAMILY,
+        'font-size': '14px',
+        'overflow-x': 'auto',
+      })}><code${language}>${escapeHtml(node.value)}</code></pre>`;
+    }
+    case 'math':
+      return renderMath(node.value, true, context);
+    case 'blockquote':
+      return `<blockquote${style({
+        'margin': '8px 0',
+        'padding': '4px 12px',
+        'border-left': `4px solid ${theme.quoteBorderColor}`,
+        'border-radius': '6px',
+        'background-color': theme.quoteBackgroundColor,
+      })}>${renderChildren(node.children as Content[], context)}</blockquote>`;
+    case 'list':
+      return renderList(node, context);
+    case 'table':
+      return renderTable(node, context);
+    case 'thematicBreak':
+      return `<hr${style({
+        'border': 0,
+        'height': '1px',
+        'opacity': 0.3,
+        'margin': '12px 0',
+        'background-color': theme.codeBorderColor,
+      })}>`;
+    default:
+      // Raw HTML, definitions and footnotes are not rendered by
+      // MarkdownRenderer either.
+      return '';
+  }
+}
+
+/**
+ * Renders markdown (or a parsed tree) to a standalone HTML string that
+ * matches what `MarkdownRenderer` shows, with theme colors as inline styles
+ * so it survives email clients and share targets. Raw HTML in the source is
+ * dropped and unsafe URLs are removed.
+ */
+export function renderToHtml(
+  input: Root | string,
+  options: RenderToHtmlOptions = {}
+): string {
+  const theme = resolveTheme(options.theme);
+  const root = typeof input === 'string' ? parseMarkdown(input) : input;
+  const body = renderChildren(root.children as Content[], { theme, options });
+  const html = `<div${style({
+    'color': theme.textColor,
+    'background-color': isVisibleColor(theme.backgroundColor)
+      ? theme.backgroundColor
+      : undefined,
+    'font-family': FONT_FAMILY,
+    'font-size': '16px',
+    'line-height': '22px',
+  })}>${body}</div>`;
+
+  if (!options.fullDocument) {
+    return html;
+  }
+  const title = options.title
+    ? `<title>${escapeHtml(options.title)}</title>`
+    : '';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8">${title}</head><body>${html}</body></html>`;
+}
@@ -0,0 +1,152 @@
+import type { Root, RootContent } from 'mdast';
+import { sanitizeIncompleteMarkdown } from './incomplete-markdown';
+import { parseSanitizedMarkdown } from './parser';
+
+export interface IncrementalParser {
+  /**
+   * Parses `markdown`, reusing the nodes of completed top-level blocks from
+   * previous calls when `markdown` extends the previously parsed text.
+   */
+  parse: (markdown: string) => Root;
+  reset: () => void;
+}
+
+type PositionedNode = {
+  position?: RootContent['position'];
+  children?: PositionedNode[];
+};
+
+// Blocks that may continue past a blank line when followed by a block of the
+// same type (list items, indented code, footnote continuation paragraphs).
+const CONTINUABLE_TYPES = new Set<RootContent['type']>([
+  'list',
+  'code',
+  'footnoteDefinition',
+]);
+
+function countLines(text: string): number {
+  let lines = 0;
+  for (let index = text.indexOf('\n'); index !== -1; ) {
+    lines += 1;
+    index = text.indexOf('\n', index + 1);
+  }
+  return lines;
+}
+
+function shiftPositions(node: PositionedNode, offset: number, lines: number) {
+  const position = node.position;
+  if (position) {
+    position.start.line += lines;
+    position.end.line += lines;
+    if (position.start.offset != null) {
+      position.start.offset += offset;
+    }
+    if (position.end.offset != null) {
+      position.end.offset += offset;
+    }
+  }
+  node.children?.forEach((child) => shiftPositions(child, offset, lines));
+}
+
+function isClosed(
+  block: RootContent,
+  next: RootContent,
+  source: string
+): boolean {
+  const end = block.position?.end.offset;
+  const nextStart = next.position?.start.offset;
+  if (end == null || nextStart == null) {
+    return false;
+  }
+  // Without a blank line the next line could still turn the block into
+  // something else (setext headings, lazy continuations, table rows).
+  if (!/\n[ \t]*\n/.test(source.slice(end, nextStart))) {
+    return false;
+  }
+  return !(CONTINUABLE_TYPES.has(block.type) && block.type === next.type);
+}
+
+/**
+ * Parser for growing documents. Completed top-level blocks are parsed once
+ * and kept (with stable object identity); each call only reparses the text
+ * from the last two blocks onwards, so the cost per update stays roughly
+ * constant as the answer grows. Text that does not extend the previous input
+ * triggers a full reparse.
+ *
+ * Link reference definitions only resolve within the block range they are
+ * parsed with, so references to definitions in earlier blocks stay literal.
+ */
+export function createIncrementalParser(): IncrementalParser {
+  let stableSource = '';
+  let stableLines = 0;
+  let stableChildren: RootContent[] = [];
+  let lastMarkdown: string | null = null;
+  let lastRoot: Root | null = null;
+
+  const reset = () => {
+    stableSource = '';
+    stableLines = 0;
+    stableChildren = [];
+    lastMarkdown = null;
+    lastRoot = null;
+  };
+
+  const parse = (markdown: string): Root => {
+    if (markdown === lastMarkdown && lastRoot) {
+      return lastRoot;
+    }
+    if (!markdown.startsWith(stableSource)) {
+      reset();
+    }
+
+    const offset = stableSource.length;
+    const tail = markdown.slice(offset);
+    const safeTail = sanitizeIncompleteMarkdown(tail);
+    const tailChildren = parseSanitizedMarkdown(safeTail).children;
+    tailChildren.forEach((child) =>
+      shiftPositions(child as PositionedNode, offset, stableLines)
+    );
+
+    // The last block is still being written, and the block before it may
+    // still absorb it (a bare `2` becomes `2. two`, continuing a list), so
+    // only blocks followed by at least two others are committed.
+    let closedCount = 0;
+    while (closedCount < tailChildren.length - 2) {
+      const block = tailChildren[closedCount];
+      const next = tailChildren[closedCount + 1];
+      if (!block || !next || !isClosed(block, next, markdown)) {
+        break;
+      }
+      closedCount += 1;
+    }
+
+    const nextStart = tailChildren[closedCount]?.position?.start.offset;
+    // The sanitizer only rewrites the end of the text; commit only when the
+    // closed blocks were parsed from unmodified input.
+    if (
+      closedCount > 0 &&
+      nextStart != null &&
+      safeTail.slice(0, nextStart - offset) ===
+        tail.slice(0, nextStart - offset)
+    ) {
+      const closedSource = markdown.slice(offset, nextStart);
+      stableChildren = [
+        ...stableChildren,
+        ...tailChildren.slice(0, closedCount),
+      ];
+      stableSource += closedSource;
+      stableLines += countLines(closedSource);
+      tailChildren.splice(0, closedCount);
+    }
+
+    const root: Root = {
+      type: 'root',
+      children: [...stableChildren, ...tailChildren],
+    };
+    lastMarkdown = markdown;
+    lastRoot = root;
+    return root;
+  };
+
+  return { parse, reset };
+}
@@ -0,0 +1,87 @@
+/**
+ * Throughput figures for one answer. Timestamps are epoch milliseconds,
+ * durations are milliseconds.
+ */
+export interface MarkdownStreamMetrics {
+  /**
+   * When `start()` began the run.
+   */
+  startedAt: number | null;
+  /**
+   * When the first chunk was appended.
+   */
+  firstChunkAt: number | null;
+  /**
+   * When the source finished, failed or was stopped.
+   */
+  endedAt: number | null;
+  /**
+   * When the reveal animation caught up and everything was visible.
+   */
+  revealedAt: number | null;
+  chunkCount: number;
+  characterCount: number;
+  retryCount: number;
+  timeToFirstChunk: number | null;
+  /**
+   * From `startedAt` to `endedAt`.
+   */
+  streamDuration: number | null;
+  /**
+   * From `startedAt` to `revealedAt`.
+   */
+  totalDuration: number | null;
+  /**
+   * Characters received per second between the first chunk and the end of
+   * the source (or now while streaming).
+   */
+  charactersPerSecond: number | null;
+}
+
+export type RawStreamMetrics = Pick<
+  MarkdownStreamMetrics,
+  | 'startedAt'
+  | 'firstChunkAt'
+  | 'endedAt'
+  | 'revealedAt'
+  | 'chunkCount'
+  | 'characterCount'
+  | 'retryCount'
+>;
+
+export function createRawMetrics(startedAt: number | null): RawStreamMetrics {
+  return {
+    startedAt,
+    firstChunkAt: null,
+    endedAt: null,
+    revealedAt: null,
+    chunkCount: 0,
+    characterCount: 0,
+    retryCount: 0,
+  };
+}
+
+function elapsed(from: number | null, to: number | null): number | null {
+  if (from == null || to == null) {
+    return null;
+  }
+  return Math.max(0, to - from);
+}
+
+export function deriveMetrics(
+  raw: RawStreamMetrics,
+  now: number = Date.now()
+): MarkdownStreamMetrics {
+  const receiveWindow = elapsed(raw.firstChunkAt, raw.endedAt ?? now);
+
+  return {
+    ...raw,
+    timeToFirstChunk: elapsed(raw.startedAt, raw.firstChunkAt),
+    streamDuration: elapsed(raw.startedAt, raw.endedAt),
+    totalDuration: elapsed(raw.startedAt, raw.revealedAt),
+    charactersPerSecond:
+      receiveWindow != null && receiveWindow > 0
+        ? (raw.characterCount / receiveWindow) * 1000
+        : null,
+  };
+}
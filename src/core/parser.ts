@@ -7,8 +7,15 @@ import { sanitizeIncompleteMarkdown } from './incomplete-markdown';
 
 const processor = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
 
-export function parseMarkdown(markdown: string): Root {
-  const safeMarkdown = sanitizeIncompleteMarkdown(markdown);
+/**
+ * Parses markdown that has already been sanitized. Offsets in the returned
+ * tree refer to `safeMarkdown`.
+ */
+export function parseSanitizedMarkdown(safeMarkdown: string): Root {
   const tree = processor.parse(safeMarkdown);
   return processor.runSync(tree) as Root;
 }
+
+export function parseMarkdown(markdown: string): Root {
+  return parseSanitizedMarkdown(sanitizeIncompleteMarkdown(markdown));
+}
@@ -0,0 +1,245 @@
+import type { Content, List, Root, Table } from 'mdast';
+import { parseMarkdown } from './parser';
+import { INCOMPLETE_LINK_PLACEHOLDER } from './incomplete-markdown';
+import { splitGraphemes } from './segmentation';
+
+export type PlainTextLinkMode = 'text' | 'url' | 'text-and-url';
+
+export type PlainTextBlockMode = 'content' | 'placeholder' | 'omit';
+
+export interface PlainTextOptions {
+  /**
+   * Maximum length in graphemes, including the ellipsis. Longer text is cut
+   * at a word boundary where possible.
+   */
+  maxLength?: number;
+  /**
+   * Appended to truncated text (default `'…'`).
+   */
+  ellipsis?: string;
+  /**
+   * `text` keeps the link label (default), `url` replaces it with the URL and
+   * `text-and-url` renders `label (url)`.
+   */
+  links?: PlainTextLinkMode;
+  /**
+   * Fenced and indented code blocks (default `'placeholder'`). Inline code is
+   * always kept.
+   */
+  code?: PlainTextBlockMode;
+  codePlaceholder?: string;
+  /**
+   * Block and inline math (default `'placeholder'`).
+   */
+  math?: PlainTextBlockMode;
+  mathPlaceholder?: string;
+  /**
+   * `content` flattens tables into one line per row (default).
+   */
+  tables?: PlainTextBlockMode;
+  tablePlaceholder?: string;
+  tableCellSeparator?: string;
+  /**
+   * Joins all blocks into a single line, e.g. for notifications.
+   */
+  singleLine?: boolean;
+}
+
+type ResolvedOptions = Required<
+  Omit<PlainTextOptions, 'maxLength' | 'singleLine'>
+>;
+
+function renderBlockValue(
+  mode: PlainTextBlockMode,
+  value: string,
+  placeholder: string
+): string {
+  if (mode === 'omit') {
+    return '';
+  }
+  return mode === 'placeholder' ? placeholder : value;
+}
+
+function renderChildren(children: Content[], options: ResolvedOptions): string {
+  return children.map((child) => renderInline(child, options)).join('');
+}
+
+function renderInline(node: Content, options: ResolvedOptions): string {
+  switch (node.type) {
+    case 'text':
+    case 'inlineCode':
+      return node.value;
+    case 'break':
+      return '\n';
+    case 'inlineMath':
+      return renderBlockValue(
+        options.math,
+        node.value,
+        options.mathPlaceholder
+      );
+    case 'image':
+      return node.alt ?? '';
+    case 'link': {
+      const label = renderChildren(node.children as Content[], options);
+      if (
+        node.url === INCOMPLETE_LINK_PLACEHOLDER ||
+        options.links === 'text' ||
+        label === node.url
+      ) {
+        return label;
+      }
+      if (options.links === 'url') {
+        return node.url;
+      }
+      return label ? `${label} (${node.url})` : node.url;
+    }
+    case 'html':
+    case 'footnoteReference':
+      return '';
+    default:
+      return 'children' in node
+        ? renderChildren(node.children as Content[], options)
+        : '';
+  }
+}
+
+function renderList(list: List, options: ResolvedOptions): string {
+  const start = list.start ?? 1;
+  return list.children
+    .map((item, index) => {
+      const marker = list.ordered ? `${start + index}. ` : '- ';
+      const content = renderBlocks(item.children as Content[], options, '\n');
+      // Indent nested lines so they stay attached to their item.
+      return marker + content.replace(/\n/g, '\n  ');
+    })
+    .join('\n');
+}
+
+function renderTable(table: Table, options: ResolvedOptions): string {
+  if (options.tables !== 'content') {
+    return renderBlockValue(options.tables, '', options.tablePlaceholder);
+  }
+  return table.children
+    .map((row) =>
+      row.children
+        .map((cell) => renderChildren(cell.children as Content[], options))
+        .filter((cell) => cell.trim() !== '')
+        .join(options.tableCellSeparator)
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderBlock(node: Content, options: ResolvedOptions): string {
+  switch (node.type) {
+    case 'paragraph':
+    case 'heading':
+      return renderChildren(node.children as Content[], options);
+    case 'blockquote':
+      return renderBlocks(node.children as Content[], options, '\n\n');
+    case 'list':
+      return renderList(node, options);
+    case 'table':
+      return renderTable(node, options);
+    case 'code':
+      return renderBlockValue(
+        options.code,
+        node.value,
+        options.codePlaceholder
+      );
+    case 'math':
+      return renderBlockValue(
+        options.math,
+        node.value,
+        options.mathPlaceholder
+      );
+    case 'thematicBreak':
+    case 'html':
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'yaml':
+      return '';
+    default:
+      return renderInline(node, options);
+  }
+}
+
+function renderBlocks(
+  nodes: Content[],
+  options: ResolvedOptions,
+  separator: string
+): string {
+  return nodes
+    .map((node) => renderBlock(node, options).trim())
+    .filter(Boolean)
+    .join(separator);
+}
+
+function truncate(text: string, maxLength: number, ellipsis: string): string {
+  const graphemes = splitGraphemes(text);
+  if (graphemes.length <= maxLength) {
+    return text;
+  }
+
+  const ellipsisLength = splitGraphemes(ellipsis).length;
+  if (ellipsisLength > maxLength) {
+    // No room for the ellipsis: cut the text itself.
+    return graphemes.slice(0, maxLength).join('');
+  }
+  const limit = maxLength - ellipsisLength;
+  let cut = graphemes.slice(0, limit).join('');
+  const next = graphemes[limit] ?? '';
+  // Back off to the previous word boundary unless that drops most of the text.
+  if (next.trim() !== '') {
+    const boundary = cut.search(/\s\S*$/);
+    if (boundary > limit / 2) {
+      cut = cut.slice(0, boundary);
+    }
+  }
+  return cut.trimEnd() + ellipsis;
+}
+
+/**
+ * Converts markdown (or an already parsed tree) into plain text for chat
+ * previews, notifications and screen reader announcements. Incomplete
+ * markdown is sanitized the same way as for rendering.
+ */
+export function toPlainText(
+  input: Root | string,
+  options: PlainTextOptions = {}
+): string {
+  const {
+    maxLength,
+    singleLine = false,
+    ellipsis = '…',
+    links = 'text',
+    code = 'placeholder',
+    codePlaceholder = '[code]',
+    math = 'placeholder',
+    mathPlaceholder = '[math]',
+    tables = 'content',
+    tablePlaceholder = '[table]',
+    tableCellSeparator = ', ',
+  } = options;
+  const resolved: ResolvedOptions = {
+    ellipsis,
+    links,
+    code,
+    codePlaceholder,
+    math,
+    mathPlaceholder,
+    tables,
+    tablePlaceholder,
+    tableCellSeparator,
+  };
+
+  const root = typeof input === 'string' ? parseMarkdown(input) : input;
+  let text = renderBlocks(root.children as Content[], resolved, '\n\n');
+  if (singleLine) {
+    text = text.replace(/\s+/g, ' ').trim();
+  }
+  if (maxLength != null && maxLength >= 0) {
+    text = truncate(text, maxLength, resolved.ellipsis);
+  }
+  return text;
+}
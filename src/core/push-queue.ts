@@ -0,0 +1,98 @@
+type Waiter<T> = {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Buffers values pushed by callback-style producers (XHR progress, sockets,
+ * event emitters) and hands them out as an async iterable. `onClose` runs once
+ * when the consumer stops early or the producer ends, so adapters can detach
+ * their listeners in one place.
+ */
+export class PushQueue<T> implements AsyncIterable<T> {
+  private readonly values: T[] = [];
+  private readonly waiters: Array<Waiter<T>> = [];
+  private closed = false;
+  private failure: { error: unknown } | null = null;
+  private onClose: (() => void) | undefined;
+
+  constructor(onClose?: () => void) {
+    this.onClose = onClose;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  push(value: T) {
+    if (this.closed) {
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+    this.values.push(value);
+  }
+
+  /**
+   * Ends the iteration once buffered values have been consumed.
+   */
+  end() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.waiters
+      .splice(0)
+      .forEach((waiter) => waiter.resolve({ value: undefined, done: true }));
+    this.runOnClose();
+  }
+
+  /**
+   * Rejects the next read after buffered values have been consumed.
+   */
+  fail(error: unknown) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.failure = { error };
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(error));
+    this.runOnClose();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.values.length > 0) {
+          return Promise.resolve({
+            value: this.values.shift() as T,
+            done: false,
+          });
+        }
+        if (this.failure) {
+          return Promise.reject(this.failure.error);
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+          this.waiters.push({ resolve, reject });
+        });
+      },
+      return: () => {
+        this.values.length = 0;
+        this.end();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private runOnClose() {
+    const onClose = this.onClose;
+    this.onClose = undefined;
+    onClose?.();
+  }
+}
@@ -0,0 +1,120 @@
+import { delay } from './delay';
+import type { MarkdownStreamSourceContext } from './stream-source';
+
+export interface StreamRecordingChunk {
+  /**
+   * Milliseconds since the recording started.
+   */
+  at: number;
+  text: string;
+}
+
+/**
+ * Plain JSON-serialisable capture of a stream.
+ */
+export interface StreamRecording {
+  version: 1;
+  /**
+   * Epoch milliseconds of the recording start.
+   */
+  startedAt: number;
+  chunks: StreamRecordingChunk[];
+}
+
+export interface StreamRecorder {
+  /**
+   * Pass as `onChunk` (or call from your own handler) to capture chunks.
+   */
+  onChunk: (chunk: string) => void;
+  /**
+   * Drops captured chunks and restarts the clock. Call it right before
+   * `start()` so the time to the first chunk is kept.
+   */
+  reset: () => void;
+  getRecording: () => StreamRecording;
+}
+
+export interface StreamRecorderOptions {
+  now?: () => number;
+}
+
+export interface ReplaySourceOptions {
+  /**
+   * Playback rate: `1` keeps the original timing, `2` halves every gap,
+   * `'instant'` yields all chunks without waiting. Defaults to `1`.
+   */
+  speed?: number | 'instant';
+}
+
+export function createStreamRecorder({
+  now = Date.now,
+}: StreamRecorderOptions = {}): StreamRecorder {
+  let startedAt = now();
+  let chunks: StreamRecordingChunk[] = [];
+
+  return {
+    onChunk(chunk) {
+      chunks.push({ at: Math.max(0, now() - startedAt), text: chunk });
+    },
+    reset() {
+      startedAt = now();
+      chunks = [];
+    },
+    getRecording() {
+      return {
+        version: 1,
+        startedAt,
+        chunks: chunks.map((chunk) => ({ ...chunk })),
+      };
+    },
+  };
+}
+
+/**
+ * Builds a recording from fixed chunks, one every `interval` milliseconds.
+ * Handy for demos and tests.
+ */
+export function createStreamRecording(
+  chunks: string[],
+  { interval = 0 }: { interval?: number } = {}
+): StreamRecording {
+  return {
+    version: 1,
+    startedAt: 0,
+    chunks: chunks.map((text, index) => ({
+      at: (index + 1) * interval,
+      text,
+    })),
+  };
+}
+
+/**
+ * Replays a recording as a source, reproducing the gaps between chunks at
+ * the given speed. Stopping the stream stops the playback.
+ */
+export function createReplaySource(
+  recording: StreamRecording,
+  { speed = 1 }: ReplaySourceOptions = {}
+): (context: MarkdownStreamSourceContext) => AsyncIterable<string> {
+  const rate = speed === 'instant' ? Infinity : speed;
+  if (!(rate > 0)) {
+    throw new Error(
+      '[react-native-markdown-stream] Replay speed must be a positive number or "instant".'
+    );
+  }
+
+  return async function* replay({ signal }) {
+    let previousAt = 0;
+    for (const chunk of recording.chunks) {
+      const gap = (chunk.at - previousAt) / rate;
+      previousAt = chunk.at;
+      if (gap > 0) {
+        await delay(gap, signal);
+      }
+      if (signal.aborted) {
+        return;
+      }
+      yield chunk.text;
+    }
+  };
+}
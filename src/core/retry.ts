@@ -0,0 +1,62 @@
+export interface MarkdownStreamRetryOptions {
+  /**
+   * Maximum number of retries after the first attempt. Defaults to 3.
+   */
+  attempts?: number;
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 500.
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound for the backoff delay in milliseconds. Defaults to 8000.
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after every retry. Defaults to 2.
+   */
+  factor?: number;
+  /**
+   * Return false to surface the error through `onError` instead of retrying.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+export type RetryPolicy = Required<
+  Omit<MarkdownStreamRetryOptions, 'shouldRetry'>
+> &
+  Pick<MarkdownStreamRetryOptions, 'shouldRetry'>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  initialDelay: 500,
+  maxDelay: 8000,
+  factor: 2,
+};
+
+export function resolveRetryPolicy(
+  retry: number | MarkdownStreamRetryOptions | undefined
+): RetryPolicy | null {
+  if (retry == null) {
+    return null;
+  }
+
+  if (typeof retry === 'number') {
+    return retry > 0 ? { ...DEFAULT_RETRY_POLICY, attempts: retry } : null;
+  }
+
+  return {
+    attempts: retry.attempts ?? DEFAULT_RETRY_POLICY.attempts,
+    initialDelay: retry.initialDelay ?? DEFAULT_RETRY_POLICY.initialDelay,
+    maxDelay: retry.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+    factor: retry.factor ?? DEFAULT_RETRY_POLICY.factor,
+    shouldRetry: retry.shouldRetry,
+  };
+}
+
+/**
+ * Exponential backoff delay before retry number `attempt` (starting at 1).
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = policy.initialDelay * policy.factor ** (attempt - 1);
+  return Math.max(0, Math.min(policy.maxDelay, delay));
+}
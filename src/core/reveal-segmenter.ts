@@ -0,0 +1,271 @@
+export type RevealUnit = 'sentence' | 'line' | 'block';
+
+type OpenFence = { char: string; length: number; text: string };
+
+const FENCE_OPEN_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HEADING_PATTERN = /^ {0,3}#{1,6}(\s|$)/;
+// Terminal punctuation, optionally followed by closing quotes, brackets or
+// emphasis markers. Latin punctuation needs trailing whitespace so `3.14` or
+// `example.com` are not split; CJK full stops do not.
+const SENTENCE_END_PATTERN =
+  /[.!?…]+["'”’)\]*_]*\s+|[。！？]+["'”’」』)\]*_]*\s*/g;
+
+function isFenceClose(line: string, fence: OpenFence): boolean {
+  const trimmed = line.trim();
+  if (trimmed.length < fence.length) {
+    return false;
+  }
+  return (
+    trimmed.split('').every((char) => char === fence.char) &&
+    /^ {0,3}\S/.test(line)
+  );
+}
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end > start) {
+      sentences.push(text.slice(start, end));
+      start = end;
+    }
+  }
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+  return sentences;
+}
+
+// End of the last complete sentence in `text`, or 0 when there is none.
+function lastSentenceEnd(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    end = (match.index ?? 0) + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Groups streamed text into sentences, lines or markdown blocks for the
+ * reveal queue. Incomplete units are held back until they are finished (or
+ * `flush()` is called). Fenced code blocks and tables are always released as
+ * a single unit so they are never split mid-structure.
+ */
+export class RevealSegmenter {
+  readonly unit: RevealUnit;
+  private buffer = '';
+  private midLine = false;
+  private block = '';
+  private fence: OpenFence | null = null;
+  private table: string | null = null;
+  private tableCandidate: string | null = null;
+  // Start of the current line that `release()` already handed out. It is
+  // still needed to recognise fences, tables and headings on that line.
+  private lineHead = '';
+
+  constructor(unit: RevealUnit) {
+    this.unit = unit;
+  }
+
+  push(text: string): string[] {
+    const units: string[] = [];
+    this.buffer += text;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline + 1);
+      this.buffer = this.buffer.slice(newline + 1);
+      this.processLine(line, units);
+      newline = this.buffer.indexOf('\n');
+    }
+
+    // The next line has started and cannot become a delimiter row.
+    if (this.tableCandidate !== null && /[^\s|:-]/.test(this.buffer)) {
+      const candidate = this.tableCandidate;
+      this.tableCandidate = null;
+      this.emitPlain(candidate, units);
+    }
+
+    if (this.unit === 'sentence' && this.canSplitPartialLine()) {
+      const end = lastSentenceEnd(this.buffer);
+      if (end > 0) {
+        units.push(...splitSentences(this.buffer.slice(0, end)));
+        this.buffer = this.buffer.slice(end);
+        this.midLine = true;
+        this.lineHead = '';
+      }
+    }
+
+    return units;
+  }
+
+  /**
+   * Releases everything held back, e.g. once the source has ended.
+   */
+  flush(): string[] {
+    const rest =
+      this.block +
+      (this.tableCandidate ?? '') +
+      (this.table ?? '') +
+      (this.fence?.text ?? '') +
+      this.buffer;
+    this.reset();
+    return rest ? [rest] : [];
+  }
+
+  /**
+   * Releases everything held back but keeps track of the open fence, table
+   * and current line, so text streamed afterwards is still grouped with the
+   * structure it belongs to. Used when the reveal is skipped mid-stream.
+   */
+  release(): string[] {
+    const held =
+      this.block +
+      (this.tableCandidate ?? '') +
+      (this.table ?? '') +
+      (this.fence?.text ?? '') +
+      this.buffer;
+    this.block = '';
+    if (this.tableCandidate !== null) {
+      this.tableCandidate = '';
+    }
+    if (this.table !== null) {
+      this.table = '';
+    }
+    if (this.fence) {
+      this.fence.text = '';
+    }
+    if (!this.midLine) {
+      this.lineHead += this.buffer;
+    }
+    this.buffer = '';
+    return held ? [held] : [];
+  }
+
+  reset() {
+    this.buffer = '';
+    this.midLine = false;
+    this.block = '';
+    this.fence = null;
+    this.table = null;
+    this.tableCandidate = null;
+    this.lineHead = '';
+  }
+
+  // A partial line may only be split while it cannot turn into a fence or
+  // table once the rest of it arrives.
+  private canSplitPartialLine(): boolean {
+    if (this.fence || this.table !== null || this.tableCandidate !== null) {
+      return false;
+    }
+    if (this.midLine) {
+      return true;
+    }
+    const line = this.lineHead + this.buffer;
+    const trimmed = line.trimStart();
+    return (
+      trimmed.length > 0 &&
+      !'`~|'.includes(trimmed[0] ?? '') &&
+      !line.includes('|')
+    );
+  }
+
+  // `line` is the unreleased rest of the line; structure is detected on the
+  // whole line.
+  private processLine(line: string, units: string[]) {
+    const lineStart = !this.midLine;
+    const fullLine = this.lineHead + line;
+    this.midLine = false;
+    this.lineHead = '';
+
+    if (this.fence) {
+      this.fence.text += line;
+      if (isFenceClose(fullLine, this.fence)) {
+        this.pushUnit(this.fence.text, units);
+        this.fence = null;
+      }
+      return;
+    }
+
+    if (this.tableCandidate !== null) {
+      const candidate = this.tableCandidate;
+      this.tableCandidate = null;
+      if (TABLE_DELIMITER_PATTERN.test(fullLine)) {
+        this.flushBlock(units);
+        this.table = candidate + line;
+        return;
+      }
+      this.emitPlain(candidate, units);
+    }
+
+    if (this.table !== null) {
+      if (fullLine.includes('|') && fullLine.trim() !== '') {
+        this.table += line;
+        return;
+      }
+      this.pushUnit(this.table, units);
+      this.table = null;
+    }
+
+    if (lineStart) {
+      const fence = FENCE_OPEN_PATTERN.exec(fullLine)?.[1];
+      if (fence) {
+        this.flushBlock(units);
+        this.fence = {
+          char: fence[0] ?? '`',
+          length: fence.length,
+          text: line,
+        };
+        return;
+      }
+      if (fullLine.includes('|') && fullLine.trim() !== '') {
+        this.tableCandidate = line;
+        return;
+      }
+    }
+
+    this.emitPlain(line, units, fullLine);
+  }
+
+  private emitPlain(line: string, units: string[], fullLine = line) {
+    if (!line) {
+      return;
+    }
+
+    if (this.unit === 'line') {
+      units.push(line);
+      return;
+    }
+
+    if (this.unit === 'sentence') {
+      units.push(...splitSentences(line));
+      return;
+    }
+
+    if (HEADING_PATTERN.test(fullLine)) {
+      this.flushBlock(units);
+      units.push(line);
+      return;
+    }
+
+    this.block += line;
+    if (fullLine.trim() === '') {
+      this.flushBlock(units);
+    }
+  }
+
+  private pushUnit(text: string, units: string[]) {
+    if (text) {
+      units.push(text);
+    }
+  }
+
+  private flushBlock(units: string[]) {
+    if (this.block) {
+      units.push(this.block);
+      this.block = '';
+    }
+  }
+}
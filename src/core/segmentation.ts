@@ -0,0 +1,119 @@
+type Granularity = 'grapheme' | 'word';
+
+const segmenterCache = new Map<string, Intl.Segmenter | null>();
+
+function getSegmenter(
+  granularity: Granularity,
+  locale: string | string[] | undefined
+): Intl.Segmenter | null {
+  const key = `${granularity}:${
+    Array.isArray(locale) ? locale.join(',') : (locale ?? '')
+  }`;
+  const cached = segmenterCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let segmenter: Intl.Segmenter | null = null;
+  if (typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function') {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity });
+    } catch {
+      segmenter = null;
+    }
+  }
+  segmenterCache.set(key, segmenter);
+  return segmenter;
+}
+
+function createPattern(source: string, fallback: string): RegExp {
+  try {
+    return new RegExp(source, 'u');
+  } catch {
+    // Engines without Unicode property escapes (older Hermes builds).
+    return new RegExp(fallback, 'u');
+  }
+}
+
+// Code points that attach to the previous one: combining marks, variation
+// selectors, emoji skin tones and emoji tag sequences.
+const EXTEND_PATTERN = createPattern(
+  '^[\\p{M}\\u200C\\uFE00-\\uFE0F\\u{1F3FB}-\\u{1F3FF}\\u{E0020}-\\u{E007F}]$',
+  '^[\\u0300-\\u036F\\u0483-\\u0489\\u0591-\\u05BD\\u0610-\\u061A\\u064B-\\u065F\\u0900-\\u0903\\u093A-\\u094F\\u0951-\\u0957\\u0962\\u0963\\u0E31\\u0E34-\\u0E3A\\u0E47-\\u0E4E\\u1AB0-\\u1AFF\\u1DC0-\\u1DFF\\u200C\\u20D0-\\u20FF\\uFE00-\\uFE0F\\uFE20-\\uFE2F\\u{1F3FB}-\\u{1F3FF}\\u{E0020}-\\u{E007F}]$'
+);
+const ZWJ = '\u200D';
+const REGIONAL_INDICATOR_PATTERN = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+
+function splitGraphemesFallback(text: string): string[] {
+  const clusters: string[] = [];
+  let joinNext = false;
+  let regionalPairOpen = false;
+
+  for (const codePoint of text) {
+    const previous = clusters.length - 1;
+    const isRegional = REGIONAL_INDICATOR_PATTERN.test(codePoint);
+
+    if (
+      previous >= 0 &&
+      (joinNext ||
+        codePoint === ZWJ ||
+        EXTEND_PATTERN.test(codePoint) ||
+        (isRegional && regionalPairOpen) ||
+        (codePoint === '\n' && clusters[previous] === '\r'))
+    ) {
+      clusters[previous] += codePoint;
+      joinNext = codePoint === ZWJ;
+      regionalPairOpen = false;
+      continue;
+    }
+
+    clusters.push(codePoint);
+    joinNext = false;
+    regionalPairOpen = isRegional;
+  }
+
+  return clusters;
+}
+
+/**
+ * Splits text into user-perceived characters, keeping surrogate pairs, ZWJ
+ * emoji sequences, flags and combining marks together. Uses
+ * `Intl.Segmenter` when available and a rule-based fallback otherwise.
+ */
+export function splitGraphemes(
+  text: string,
+  locale?: string | string[]
+): string[] {
+  const segmenter = getSegmenter('grapheme', locale);
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), ({ segment }) => segment);
+  }
+  return splitGraphemesFallback(text);
+}
+
+// Scripts written without spaces between words. Without a dictionary-based
+// segmenter their runs are revealed per character instead of per paragraph.
+const UNSPACED_SCRIPT =
+  '\\u0E00-\\u0EFF\\u1000-\\u109F\\u1780-\\u17FF\\u3000-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF\\uFF00-\\uFFEF';
+const FALLBACK_WORD_PATTERN = new RegExp(
+  `\\s+|[${UNSPACED_SCRIPT}]+|[^\\s${UNSPACED_SCRIPT}]+`,
+  'g'
+);
+const UNSPACED_RUN_PATTERN = new RegExp(`^[${UNSPACED_SCRIPT}]`);
+
+/**
+ * Splits text into words, whitespace and punctuation segments. Uses
+ * `Intl.Segmenter` for locale-aware boundaries (CJK, Thai, …); the fallback
+ * splits on whitespace and reveals scripts without spaces per character.
+ */
+export function splitWords(text: string, locale?: string | string[]): string[] {
+  const segmenter = getSegmenter('word', locale);
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), ({ segment }) => segment);
+  }
+
+  const tokens = text.match(FALLBACK_WORD_PATTERN) ?? [text];
+  return tokens.flatMap((token) =>
+    UNSPACED_RUN_PATTERN.test(token) ? splitGraphemesFallback(token) : [token]
+  );
+}
@@ -0,0 +1,322 @@
+interface SpeechState {
+  source: string;
+  index: number;
+}
+
+const SYMBOL_WORDS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '*': 'times',
+  '=': 'equals',
+  '<': 'less than',
+  '>': 'greater than',
+  '/': 'divided by',
+  '!': 'factorial',
+  "'": 'prime',
+  ',': ',',
+  ';': ',',
+  ':': ',',
+};
+
+// Characters that only structure the formula and are not spoken.
+const SILENT_SYMBOLS = new Set(['(', ')', '[', ']', '|', '&', '~', '.']);
+
+const COMMAND_WORDS: Record<string, string> = {
+  alpha: 'alpha',
+  beta: 'beta',
+  gamma: 'gamma',
+  Gamma: 'capital gamma',
+  delta: 'delta',
+  Delta: 'capital delta',
+  epsilon: 'epsilon',
+  varepsilon: 'epsilon',
+  zeta: 'zeta',
+  eta: 'eta',
+  theta: 'theta',
+  Theta: 'capital theta',
+  iota: 'iota',
+  kappa: 'kappa',
+  lambda: 'lambda',
+  Lambda: 'capital lambda',
+  mu: 'mu',
+  nu: 'nu',
+  xi: 'xi',
+  Xi: 'capital xi',
+  pi: 'pi',
+  Pi: 'capital pi',
+  rho: 'rho',
+  sigma: 'sigma',
+  Sigma: 'capital sigma',
+  tau: 'tau',
+  upsilon: 'upsilon',
+  phi: 'phi',
+  varphi: 'phi',
+  Phi: 'capital phi',
+  chi: 'chi',
+  psi: 'psi',
+  Psi: 'capital psi',
+  omega: 'omega',
+  Omega: 'capital omega',
+  infty: 'infinity',
+  sum: 'the sum',
+  prod: 'the product',
+  int: 'the integral',
+  iint: 'the double integral',
+  oint: 'the contour integral',
+  lim: 'the limit',
+  to: 'to',
+  rightarrow: 'to',
+  leftarrow: 'from',
+  Rightarrow: 'implies',
+  implies: 'implies',
+  iff: 'if and only if',
+  mapsto: 'maps to',
+  le: 'less than or equal to',
+  leq: 'less than or equal to',
+  ge: 'greater than or equal to',
+  geq: 'greater than or equal to',
+  neq: 'not equal to',
+  ne: 'not equal to',
+  approx: 'approximately equal to',
+  equiv: 'is equivalent to',
+  sim: 'is similar to',
+  propto: 'is proportional to',
+  times: 'times',
+  cdot: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  partial: 'partial',
+  nabla: 'nabla',
+  in: 'in',
+  notin: 'not in',
+  subset: 'subset of',
+  subseteq: 'subset of or equal to',
+  cup: 'union',
+  cap: 'intersection',
+  emptyset: 'the empty set',
+  forall: 'for all',
+  exists: 'there exists',
+  neg: 'not',
+  land: 'and',
+  lor: 'or',
+  ldots: 'dot dot dot',
+  cdots: 'dot dot dot',
+  dots: 'dot dot dot',
+  degree: 'degrees',
+  circ: 'degrees',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  log: 'log',
+  ln: 'natural log',
+  exp: 'exp',
+  max: 'max',
+  min: 'min',
+};
+
+const IGNORED_COMMANDS = new Set([
+  'left',
+  'right',
+  'big',
+  'Big',
+  'bigg',
+  'Bigg',
+  'displaystyle',
+  'textstyle',
+  'quad',
+  'qquad',
+  'limits',
+]);
+
+// Operators whose sub- and superscripts are limits ("from … to …").
+const LIMIT_COMMANDS = new Set(['sum', 'prod', 'int', 'iint', 'oint', 'lim']);
+
+// Commands whose argument is spoken as written.
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'mathrm', 'operatorname']);
+
+// Commands whose argument is spoken like the surrounding formula.
+const STYLE_COMMANDS = new Set([
+  'mathbf',
+  'mathit',
+  'mathbb',
+  'mathcal',
+  'boldsymbol',
+  'vec',
+  'hat',
+  'bar',
+  'overline',
+]);
+
+function skipWhitespace(state: SpeechState) {
+  while (/\s/.test(state.source[state.index] ?? '')) {
+    state.index += 1;
+  }
+}
+
+function readRawGroup(state: SpeechState): string {
+  skipWhitespace(state);
+  if (state.source[state.index] !== '{') {
+    return state.source[state.index++] ?? '';
+  }
+  let depth = 0;
+  const start = state.index + 1;
+  for (; state.index < state.source.length; state.index += 1) {
+    const char = state.source[state.index];
+    if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        state.index += 1;
+        return state.source.slice(start, state.index - 1);
+      }
+    }
+  }
+  return state.source.slice(start);
+}
+
+function speakUntil(state: SpeechState, terminator: string | null): string {
+  const words: string[] = [];
+  while (state.index < state.source.length) {
+    if (state.source[state.index] === terminator) {
+      state.index += 1;
+      break;
+    }
+    words.push(speakToken(state));
+  }
+  return words.filter(Boolean).join(' ');
+}
+
+function speakArgument(state: SpeechState): string {
+  skipWhitespace(state);
+  if (state.source[state.index] === '{') {
+    state.index += 1;
+    return speakUntil(state, '}');
+  }
+  return speakToken(state);
+}
+
+function speakLimits(state: SpeechState, operator: string): string[] {
+  const words: string[] = [];
+  for (;;) {
+    skipWhitespace(state);
+    if (state.source.startsWith('\\limits', state.index)) {
+      state.index += '\\limits'.length;
+      continue;
+    }
+    const marker = state.source[state.index];
+    if (marker !== '_' && marker !== '^') {
+      return words;
+    }
+    state.index += 1;
+    const lower = operator === 'lim' ? 'as' : 'from';
+    words.push(`${marker === '_' ? lower : 'to'} ${speakArgument(state)}`);
+  }
+}
+
+function speakCommand(state: SpeechState): string {
+  const match = /^\\([a-zA-Z]+|.)/.exec(state.source.slice(state.index));
+  if (!match) {
+    state.index += 1;
+    return '';
+  }
+  state.index += match[0].length;
+  const name = match[1] ?? '';
+
+  switch (name) {
+    case 'frac':
+    case 'dfrac':
+    case 'tfrac': {
+      const numerator = speakArgument(state);
+      const denominator = speakArgument(state);
+      const compound = `${numerator} ${denominator}`.split(' ').length > 2;
+      return `${compound ? 'the fraction ' : ''}${numerator} over ${denominator}`;
+    }
+    case 'sqrt': {
+      let degree = '';
+      if (state.source[state.index] === '[') {
+        state.index += 1;
+        degree = speakUntil(state, ']');
+      }
+      const radicand = speakArgument(state);
+      if (!degree || degree === '2') {
+        return `the square root of ${radicand}`;
+      }
+      return degree === '3'
+        ? `the cube root of ${radicand}`
+        : `the ${degree}th root of ${radicand}`;
+    }
+    case '\\':
+      return ',';
+    default:
+      break;
+  }
+
+  if (TEXT_COMMANDS.has(name)) {
+    return readRawGroup(state);
+  }
+  if (STYLE_COMMANDS.has(name)) {
+    return speakArgument(state);
+  }
+  if (IGNORED_COMMANDS.has(name) || !/[a-zA-Z]/.test(name)) {
+    return '';
+  }
+  if (LIMIT_COMMANDS.has(name)) {
+    return [COMMAND_WORDS[name] ?? name, ...speakLimits(state, name)].join(' ');
+  }
+  return COMMAND_WORDS[name] ?? name;
+}
+
+function speakToken(state: SpeechState): string {
+  const char = state.source[state.index] ?? '';
+
+  if (char === '\\') {
+    return speakCommand(state);
+  }
+  if (char === '{') {
+    state.index += 1;
+    return speakUntil(state, '}');
+  }
+  if (char === '^') {
+    state.index += 1;
+    const exponent = speakArgument(state);
+    if (exponent === '2') {
+      return 'squared';
+    }
+    if (exponent === '3') {
+      return 'cubed';
+    }
+    return `to the power of ${exponent}`;
+  }
+  if (char === '_') {
+    state.index += 1;
+    return `sub ${speakArgument(state)}`;
+  }
+
+  const number = /^\d+(?:\.\d+)?/.exec(state.source.slice(state.index));
+  if (number) {
+    state.index += number[0].length;
+    return number[0];
+  }
+
+  state.index += 1;
+  if (char === '}' || SILENT_SYMBOLS.has(char) || /\s/.test(char)) {
+    return '';
+  }
+  return SYMBOL_WORDS[char] ?? char;
+}
+
+/**
+ * Converts a TeX formula into words for screen readers, e.g.
+ * `\frac{a}{b}^2` becomes "a over b squared". Unknown commands are spoken by
+ * name; the result is a best-effort reading, not a full TeX interpreter.
+ */
+export function texToSpeech(tex: string): string {
+  const state: SpeechState = { source: tex, index: 0 };
+  return speakUntil(state, null)
+    .replace(/\s+/g, ' ')
+    .replace(/ ,/g, ',')
+    .replace(/(,\s*)+/g, ', ')
+    .replace(/^[,\s]+|[,\s]+$/g, '');
+}
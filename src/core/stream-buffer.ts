@@ -1,24 +1,88 @@
+/**
+ * Append-only text buffer. Chunks are joined lazily into a cached value, so
+ * reading `value` after every append costs one concatenation instead of a
+ * join over all chunks, and `length`, `tail` and `slice` near the end do not
+ * need the joined value at all.
+ */
 export class StreamBuffer {
-  private readonly chunks: string[] = [];
+  private joined = '';
+  private readonly pending: string[] = [];
+  private pendingLength = 0;
 
   constructor(initialValue = '') {
-    if (initialValue) {
-      this.chunks.push(initialValue);
-    }
+    this.joined = initialValue;
   }
 
   append(chunk: string) {
     if (!chunk) {
       return;
     }
-    this.chunks.push(chunk);
+    this.pending.push(chunk);
+    this.pendingLength += chunk.length;
   }
 
   get value(): string {
-    return this.chunks.join('');
+    if (this.pending.length > 0) {
+      this.joined += this.pending.join('');
+      this.pending.length = 0;
+      this.pendingLength = 0;
+    }
+    return this.joined;
+  }
+
+  get length(): number {
+    return this.joined.length + this.pendingLength;
+  }
+
+  /**
+   * Returns the last `count` characters.
+   */
+  tail(count: number): string {
+    if (count <= 0) {
+      return '';
+    }
+    if (count > this.pendingLength) {
+      return this.value.slice(-count);
+    }
+
+    const parts: string[] = [];
+    let collected = 0;
+    for (let index = this.pending.length - 1; index >= 0; index -= 1) {
+      const chunk = this.pending[index] ?? '';
+      parts.push(chunk);
+      collected += chunk.length;
+      if (collected >= count) {
+        break;
+      }
+    }
+    return parts.reverse().join('').slice(-count);
+  }
+
+  /**
+   * Same semantics as `String.prototype.slice`.
+   */
+  slice(start = 0, end?: number): string {
+    const length = this.length;
+    const from =
+      start < 0 ? Math.max(0, length + start) : Math.min(start, length);
+    const to =
+      end == null
+        ? length
+        : end < 0
+          ? Math.max(0, length + end)
+          : Math.min(end, length);
+    if (to <= from) {
+      return '';
+    }
+    if (to === length) {
+      return this.tail(length - from);
+    }
+    return this.value.slice(from, to);
   }
 
   reset() {
-    this.chunks.length = 0;
+    this.joined = '';
+    this.pending.length = 0;
+    this.pendingLength = 0;
   }
 }
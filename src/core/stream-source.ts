@@ -0,0 +1,258 @@
+import type { ChunkExtractor } from './extractors';
+import { Utf8StreamDecoder } from './utf8-decoder';
+
+type ReadableStreamReaderLike<T> = {
+  read: () => Promise<{ done: boolean; value: T }>;
+  releaseLock: () => void;
+  cancel?: (reason?: unknown) => Promise<void>;
+};
+
+export type ReadableStreamLike<T> = {
+  getReader: () => ReadableStreamReaderLike<T>;
+};
+
+export interface MarkdownStreamSourceContext {
+  /**
+   * Aborted when the stream is stopped. Forward it to `fetch` or any other
+   * cancellable request so the download stops together with the stream.
+   */
+  signal: AbortSignal;
+  /**
+   * Zero for the first connection, incremented on every automatic or manual retry.
+   */
+  attempt: number;
+  /**
+   * Number of characters already received in this run. Ask the backend to
+   * resume after this offset when `attempt` is greater than zero.
+   */
+  offset: number;
+  /**
+   * Last SSE event id seen before the interruption (set by `createSSESource`).
+   */
+  lastEventId?: string;
+}
+
+export type MarkdownStreamSource<T = unknown> =
+  | AsyncIterable<T>
+  | Iterable<T>
+  | ((
+      context: MarkdownStreamSourceContext
+    ) => ResolvedSource<T> | Promise<ResolvedSource<T>>)
+  | ReadableStreamLike<T>;
+
+type AsyncOrSyncIterable<T> = AsyncIterable<T> | Iterable<T>;
+type ResolvedSource<T> = AsyncOrSyncIterable<T> | ReadableStreamLike<T>;
+
+export interface StreamSourceOptions {
+  /**
+   * Maps raw chunks (provider envelopes, JSON strings) to markdown text.
+   */
+  extractor?: ChunkExtractor;
+  /**
+   * Cancels the underlying reader or iterator when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Resume information forwarded to source factories.
+   */
+  resume?: Omit<MarkdownStreamSourceContext, 'signal'>;
+}
+
+const ABORTED = Symbol('aborted');
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return (
+    typeof (value as AsyncIterable<T>)?.[Symbol.asyncIterator] === 'function'
+  );
+}
+
+function isIterable<T>(value: unknown): value is Iterable<T> {
+  return typeof (value as Iterable<T>)?.[Symbol.iterator] === 'function';
+}
+
+function isReadableStream<T>(value: unknown): value is ReadableStreamLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ReadableStreamLike<T>).getReader === 'function'
+  );
+}
+
+function normalizeChunk(chunk: unknown, decoder: Utf8StreamDecoder): string {
+  if (typeof chunk === 'string') {
+    return chunk;
+  }
+
+  if (chunk instanceof Uint8Array) {
+    return decoder.decode(chunk);
+  }
+
+  if (chunk == null) {
+    return '';
+  }
+
+  if (typeof chunk === 'object' && 'toString' in chunk) {
+    return String(chunk);
+  }
+
+  return String(chunk);
+}
+
+function readChunk(
+  chunk: unknown,
+  extractor: ChunkExtractor | undefined,
+  decoder: Utf8StreamDecoder
+): string | null {
+  if (!extractor) {
+    return normalizeChunk(chunk, decoder);
+  }
+
+  const value =
+    chunk instanceof Uint8Array ? normalizeChunk(chunk, decoder) : chunk;
+  const extracted = extractor(value);
+  return extracted ? extracted : null;
+}
+
+async function resolveSource<T>(
+  source: MarkdownStreamSource<T>,
+  context: MarkdownStreamSourceContext
+): Promise<ResolvedSource<T>> {
+  if (typeof source === 'function') {
+    const result = source(context);
+    return Promise.resolve(result);
+  }
+
+  return source;
+}
+
+function createAbortWaiter(signal: AbortSignal | undefined): {
+  promise: Promise<typeof ABORTED>;
+  dispose: () => void;
+} {
+  if (!signal) {
+    return { promise: new Promise(() => {}), dispose: () => {} };
+  }
+
+  let listener: (() => void) | undefined;
+  const promise = new Promise<typeof ABORTED>((resolve) => {
+    if (signal.aborted) {
+      resolve(ABORTED);
+      return;
+    }
+    listener = () => resolve(ABORTED);
+    signal.addEventListener('abort', listener);
+  });
+
+  return {
+    promise,
+    dispose: () => {
+      if (listener) {
+        signal.removeEventListener('abort', listener);
+      }
+    },
+  };
+}
+
+async function* readRawChunks<T>(
+  resolved: ResolvedSource<T>,
+  signal: AbortSignal | undefined
+): AsyncGenerator<T> {
+  const aborted = createAbortWaiter(signal);
+
+  try {
+    if (isReadableStream(resolved)) {
+      const reader = resolved.getReader();
+      try {
+        while (true) {
+          const result = await Promise.race([reader.read(), aborted.promise]);
+          if (result === ABORTED || result.done) {
+            break;
+          }
+          yield result.value;
+        }
+      } finally {
+        if (signal?.aborted) {
+          reader.cancel?.().catch(() => {});
+        }
+        try {
+          reader.releaseLock();
+        } catch {
+          // Some readers refuse to release while a read is still pending.
+        }
+      }
+      return;
+    }
+
+    if (isAsyncIterable(resolved)) {
+      const iterator = resolved[Symbol.asyncIterator]();
+      let finished = false;
+      try {
+        while (true) {
+          const result = await Promise.race([iterator.next(), aborted.promise]);
+          if (result === ABORTED) {
+            break;
+          }
+          if (result.done) {
+            finished = true;
+            break;
+          }
+          yield result.value;
+        }
+      } finally {
+        if (!finished) {
+          // Not awaited: a generator blocked on its next value only settles
+          // `return()` after that value arrives.
+          iterator.return?.()?.catch(() => {});
+        }
+      }
+      return;
+    }
+
+    if (isIterable(resolved)) {
+      for (const chunk of resolved) {
+        if (signal?.aborted) {
+          break;
+        }
+        yield chunk;
+      }
+      return;
+    }
+  } finally {
+    aborted.dispose();
+  }
+
+  throw new Error('[react-native-markdown-stream] Unsupported stream source');
+}
+
+/**
+ * Resolves any supported source shape and yields its chunks as strings.
+ * Byte chunks share one streaming UTF-8 decoder per call, which is flushed
+ * once the source ends.
+ */
+export async function* toAsyncIterable<T>(
+  source: MarkdownStreamSource<T>,
+  { extractor, signal, resume }: StreamSourceOptions = {}
+): AsyncGenerator<string> {
+  const resolved = await resolveSource(source, {
+    attempt: 0,
+    offset: 0,
+    ...resume,
+    signal: signal ?? new AbortController().signal,
+  });
+  const decoder = new Utf8StreamDecoder();
+
+  for await (const chunk of readRawChunks(resolved, signal)) {
+    const text = readChunk(chunk, extractor, decoder);
+    if (text) {
+      yield text;
+    }
+  }
+
+  const remainder = decoder.flush();
+  if (remainder && !signal?.aborted) {
+    const text = readChunk(remainder, extractor, decoder);
+    if (text) {
+      yield text;
+    }
+  }
+}
@@ -0,0 +1,352 @@
+interface MathState {
+  source: string;
+  index: number;
+}
+
+const IDENTIFIER_SYMBOLS: Record<string, string> = {
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  Gamma: 'Γ',
+  delta: 'δ',
+  Delta: 'Δ',
+  epsilon: 'ϵ',
+  varepsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  Theta: 'Θ',
+  iota: 'ι',
+  kappa: 'κ',
+  lambda: 'λ',
+  Lambda: 'Λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  Xi: 'Ξ',
+  pi: 'π',
+  Pi: 'Π',
+  rho: 'ρ',
+  sigma: 'σ',
+  Sigma: 'Σ',
+  tau: 'τ',
+  upsilon: 'υ',
+  phi: 'ϕ',
+  varphi: 'φ',
+  Phi: 'Φ',
+  chi: 'χ',
+  psi: 'ψ',
+  Psi: 'Ψ',
+  omega: 'ω',
+  Omega: 'Ω',
+  infty: '∞',
+  partial: '∂',
+  nabla: '∇',
+  emptyset: '∅',
+  ell: 'ℓ',
+};
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  sum: '∑',
+  prod: '∏',
+  int: '∫',
+  iint: '∬',
+  oint: '∮',
+  to: '→',
+  rightarrow: '→',
+  leftarrow: '←',
+  Rightarrow: '⇒',
+  implies: '⟹',
+  iff: '⟺',
+  mapsto: '↦',
+  le: '≤',
+  leq: '≤',
+  ge: '≥',
+  geq: '≥',
+  neq: '≠',
+  ne: '≠',
+  approx: '≈',
+  equiv: '≡',
+  sim: '∼',
+  propto: '∝',
+  times: '×',
+  cdot: '⋅',
+  div: '÷',
+  pm: '±',
+  mp: '∓',
+  in: '∈',
+  notin: '∉',
+  subset: '⊂',
+  subseteq: '⊆',
+  cup: '∪',
+  cap: '∩',
+  forall: '∀',
+  exists: '∃',
+  neg: '¬',
+  land: '∧',
+  lor: '∨',
+  ldots: '…',
+  cdots: '⋯',
+  dots: '…',
+  circ: '∘',
+  degree: '°',
+};
+
+const FUNCTION_NAMES = new Set([
+  'sin',
+  'cos',
+  'tan',
+  'log',
+  'ln',
+  'exp',
+  'max',
+  'min',
+  'lim',
+  'det',
+]);
+
+// Sizing and spacing commands that have no markup of their own.
+const IGNORED_COMMANDS = new Set([
+  'left',
+  'right',
+  'big',
+  'Big',
+  'bigg',
+  'Bigg',
+  'displaystyle',
+  'textstyle',
+  'quad',
+  'qquad',
+  'limits',
+  ',',
+  ';',
+  ':',
+  '!',
+  ' ',
+]);
+
+const TEXT_COMMANDS = new Set(['text', 'textrm']);
+const UPRIGHT_COMMANDS = new Set(['mathrm', 'operatorname']);
+
+const STYLE_VARIANTS: Record<string, string> = {
+  mathbf: 'bold',
+  mathit: 'italic',
+  mathbb: 'double-struck',
+  mathcal: 'script',
+  boldsymbol: 'bold-italic',
+};
+
+const ACCENTS: Record<string, string> = {
+  vec: '→',
+  hat: '^',
+  bar: '¯',
+  overline: '¯',
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function row(atoms: string[]): string {
+  return atoms.length === 1
+    ? (atoms[0] ?? '')
+    : `<mrow>${atoms.join('')}</mrow>`;
+}
+
+function skipWhitespace(state: MathState) {
+  while (/\s/.test(state.source[state.index] ?? '')) {
+    state.index += 1;
+  }
+}
+
+function readRawGroup(state: MathState): string {
+  skipWhitespace(state);
+  if (state.source[state.index] !== '{') {
+    return state.source[state.index++] ?? '';
+  }
+  let depth = 0;
+  const start = state.index + 1;
+  for (; state.index < state.source.length; state.index += 1) {
+    const char = state.source[state.index];
+    if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth -= 1;
+      if (depth === 0) {
+        state.index += 1;
+        return state.source.slice(start, state.index - 1);
+      }
+    }
+  }
+  return state.source.slice(start);
+}
+
+function parseUntil(state: MathState, terminator: string | null): string[] {
+  const atoms: string[] = [];
+  while (state.index < state.source.length) {
+    const char = state.source[state.index];
+    if (char === terminator) {
+      state.index += 1;
+      break;
+    }
+    if (char === '^' || char === '_') {
+      state.index += 1;
+      atoms.push(parseScripts(state, char, atoms.pop() ?? '<mrow></mrow>'));
+      continue;
+    }
+    const atom = parseAtom(state);
+    if (atom) {
+      atoms.push(atom);
+    }
+  }
+  return atoms;
+}
+
+// Attaches `x_a`, `x^b` and both (in either order) to their base.
+function parseScripts(state: MathState, marker: string, base: string): string {
+  const first = parseArgument(state);
+  skipWhitespace(state);
+  const other = marker === '^' ? '_' : '^';
+  if (state.source[state.index] !== other) {
+    return marker === '^'
+      ? `<msup>${base}${first}</msup>`
+      : `<msub>${base}${first}</msub>`;
+  }
+  state.index += 1;
+  const second = parseArgument(state);
+  const [sub, sup] = marker === '_' ? [first, second] : [second, first];
+  return `<msubsup>${base}${sub}${sup}</msubsup>`;
+}
+
+function parseArgument(state: MathState): string {
+  skipWhitespace(state);
+  if (state.source[state.index] === '{') {
+    state.index += 1;
+    return row(parseUntil(state, '}'));
+  }
+  return parseAtom(state) || '<mrow></mrow>';
+}
+
+function parseCommand(state: MathState): string {
+  const match = /^\\([a-zA-Z]+|.)/.exec(state.source.slice(state.index));
+  if (!match) {
+    state.index += 1;
+    return '';
+  }
+  state.index += match[0].length;
+  const name = match[1] ?? '';
+
+  switch (name) {
+    case 'frac':
+    case 'dfrac':
+    case 'tfrac': {
+      const numerator = parseArgument(state);
+      const denominator = parseArgument(state);
+      return `<mfrac>${numerator}${denominator}</mfrac>`;
+    }
+    case 'sqrt': {
+      if (state.source[state.index] === '[') {
+        state.index += 1;
+        const degree = row(parseUntil(state, ']'));
+        return `<mroot>${parseArgument(state)}${degree}</mroot>`;
+      }
+      return `<msqrt>${parseArgument(state)}</msqrt>`;
+    }
+    case '\\':
+      return '<mspace linebreak="newline"/>';
+    case 'left':
+    case 'right':
+      // `\left.` hides the delimiter.
+      if (state.source[state.index] === '.') {
+        state.index += 1;
+      }
+      return '';
+    default:
+      break;
+  }
+
+  if (TEXT_COMMANDS.has(name)) {
+    return `<mtext>${escapeText(readRawGroup(state))}</mtext>`;
+  }
+  if (UPRIGHT_COMMANDS.has(name)) {
+    return `<mi mathvariant="normal">${escapeText(readRawGroup(state))}</mi>`;
+  }
+  const variant = STYLE_VARIANTS[name];
+  if (variant) {
+    return `<mstyle mathvariant="${variant}">${parseArgument(state)}</mstyle>`;
+  }
+  const accent = ACCENTS[name];
+  if (accent) {
+    return `<mover accent="true">${parseArgument(state)}<mo>${accent}</mo></mover>`;
+  }
+  if (IGNORED_COMMANDS.has(name)) {
+    return '';
+  }
+  const identifier = IDENTIFIER_SYMBOLS[name];
+  if (identifier) {
+    return `<mi>${identifier}</mi>`;
+  }
+  const operator = OPERATOR_SYMBOLS[name];
+  if (operator) {
+    return `<mo>${operator}</mo>`;
+  }
+  if (FUNCTION_NAMES.has(name)) {
+    return `<mi>${name}</mi>`;
+  }
+  // Escaped characters such as `\{` or `\%`, and unknown commands by name.
+  return /[a-zA-Z]/.test(name)
+    ? `<mi>${escapeText(name)}</mi>`
+    : `<mo>${escapeText(name)}</mo>`;
+}
+
+function parseAtom(state: MathState): string {
+  const char = state.source[state.index] ?? '';
+
+  if (char === '\\') {
+    return parseCommand(state);
+  }
+  if (char === '{') {
+    state.index += 1;
+    return row(parseUntil(state, '}'));
+  }
+
+  const number = /^\d+(?:\.\d+)?/.exec(state.source.slice(state.index));
+  if (number) {
+    state.index += number[0].length;
+    return `<mn>${number[0]}</mn>`;
+  }
+
+  state.index += 1;
+  if (/\s/.test(char) || char === '}' || char === '&') {
+    return '';
+  }
+  if (/[a-zA-Z]/.test(char)) {
+    return `<mi>${char}</mi>`;
+  }
+  if (char === "'") {
+    return '<mo>′</mo>';
+  }
+  return `<mo>${escapeText(char)}</mo>`;
+}
+
+/**
+ * Converts a TeX formula into a MathML `<math>` element, keeping the source
+ * as annotation. Covers the common constructs (fractions, roots, sub- and
+ * superscripts, Greek letters, operators, text and font styles); other
+ * commands are shown by name. Use a full converter such as KaTeX for
+ * anything beyond that.
+ */
+export function texToMathML(tex: string, displayMode = false): string {
+  const state: MathState = { source: tex, index: 0 };
+  const body = row(parseUntil(state, null)) || '<mrow></mrow>';
+  return (
+    `<math${displayMode ? ' display="block"' : ''}><semantics>` +
+    body +
+    `<annotation encoding="application/x-tex">${escapeText(tex)}</annotation>` +
+    '</semantics></math>'
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Stateful chunk transformer applied before text reaches the stream buffer.
+ * It may hold text back (e.g. a possible match cut by a chunk boundary) and
+ * release it from `flush()` once the stream ends.
+ */
+export interface ChunkTransform {
+  transform: (chunk: string) => string;
+  /**
+   * Returns any text still held back. Called once when the source ends.
+   */
+  flush?: () => string;
+  /**
+   * Clears internal state. Called before every new run and on `reset()`.
+   */
+  reset?: () => void;
+}
+
+export interface ReplaceTransformOptions {
+  /**
+   * Upper bound for the length of a single match, including any lookbehind
+   * or lookahead context it depends on. This many trailing characters are
+   * held back so matches spanning chunks are still found, and the same
+   * amount of already emitted text is kept as context for lookbehinds.
+   * Defaults to 64.
+   */
+  maxMatchLength?: number;
+}
+
+type Replacement = string | ((match: string, ...groups: string[]) => string);
+
+const DEFAULT_MAX_MATCH_LENGTH = 64;
+
+/**
+ * Expands `$&`, `$1`, `$<name>` etc. the way `String.prototype.replace` does,
+ * for a match found in `text`.
+ */
+function expandReplacement(
+  template: string,
+  match: RegExpExecArray,
+  text: string
+): string {
+  return template.replace(
+    /\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g,
+    (token, key: string, name: string | undefined) => {
+      switch (key) {
+        case '$':
+          return '$';
+        case '&':
+          return match[0];
+        case '`':
+          return text.slice(0, match.index);
+        case "'":
+          return text.slice(match.index + match[0].length);
+        default:
+          break;
+      }
+      if (name !== undefined) {
+        return match.groups ? (match.groups[name] ?? '') : token;
+      }
+      const group = Number(key);
+      if (group >= 1 && group < match.length) {
+        return match[group] ?? '';
+      }
+      // `$12` with fewer than 12 groups means group 1 followed by "2".
+      const single = Number(key[0]);
+      if (key.length === 2 && single >= 1 && single < match.length) {
+        return (match[single] ?? '') + key[1];
+      }
+      return token;
+    }
+  );
+}
+
+/**
+ * Replaces every match of `pattern`, including matches split across chunks.
+ * Useful to strip provider artifacts, redact secrets or rewrite link schemes.
+ * Matches are found in the surrounding text, so lookbehinds, lookaheads and
+ * `\b` see the neighbouring characters.
+ */
+export function createReplaceTransform(
+  pattern: RegExp,
+  replacement: Replacement,
+  { maxMatchLength = DEFAULT_MAX_MATCH_LENGTH }: ReplaceTransformOptions = {}
+): ChunkTransform {
+  const flags = pattern.flags.replace('g', '').replace('y', '');
+  const globalPattern = new RegExp(pattern.source, `${flags}g`);
+  const holdback = Math.max(0, maxMatchLength);
+  // Already emitted input, kept so lookbehinds can see it.
+  let context = '';
+  let pending = '';
+
+  const replaceMatch = (match: RegExpExecArray, text: string) => {
+    if (typeof replacement === 'string') {
+      return expandReplacement(replacement, match, text);
+    }
+    const call = replacement as (...args: unknown[]) => string;
+    const args: unknown[] = [...match, match.index, text];
+    if (match.groups) {
+      args.push(match.groups);
+    }
+    return call(...args);
+  };
+
+  // Replaces matches starting in [start, cut) and returns the output up to
+  // the end of the last replaced match or `cut`, whichever is later.
+  const replaceRange = (text: string, start: number, cut: number) => {
+    let output = '';
+    let lastIndex = start;
+    globalPattern.lastIndex = start;
+    for (
+      let match = globalPattern.exec(text);
+      match && match.index < cut;
+      match = globalPattern.exec(text)
+    ) {
+      if (match[0] === '') {
+        globalPattern.lastIndex = match.index + 1;
+        continue;
+      }
+      output += text.slice(lastIndex, match.index) + replaceMatch(match, text);
+      lastIndex = match.index + match[0].length;
+    }
+
+    const emitUntil = Math.max(lastIndex, cut);
+    output += text.slice(lastIndex, emitUntil);
+    return { output, emitUntil };
+  };
+
+  return {
+    transform(chunk) {
+      const text = context + pending + chunk;
+      const start = context.length;
+      const cut = text.length - holdback;
+      if (cut <= start) {
+        pending += chunk;
+        return '';
+      }
+
+      const { output, emitUntil } = replaceRange(text, start, cut);
+      pending = text.slice(emitUntil);
+      context = text.slice(Math.max(0, emitUntil - holdback), emitUntil);
+      return output;
+    },
+    flush() {
+      const text = context + pending;
+      const { output } = replaceRange(text, context.length, text.length);
+      context = '';
+      pending = '';
+      return output;
+    },
+    reset() {
+      context = '';
+      pending = '';
+    },
+  };
+}
+
+export function applyTransforms(
+  transforms: ChunkTransform[] | undefined,
+  chunk: string
+): string {
+  if (!transforms) {
+    return chunk;
+  }
+  return transforms.reduce(
+    (text, transform) => (text ? transform.transform(text) : text),
+    chunk
+  );
+}
+
+/**
+ * Flushes the pipeline in order: text released by one transform still passes
+ * through the ones after it.
+ */
+export function flushTransforms(
+  transforms: ChunkTransform[] | undefined
+): string {
+  if (!transforms) {
+    return '';
+  }
+  return transforms.reduce((carry, transform) => {
+    const transformed = carry ? transform.transform(carry) : '';
+    return transformed + (transform.flush?.() ?? '');
+  }, '');
+}
+
+export function resetTransforms(transforms: ChunkTransform[] | undefined) {
+  transforms?.forEach((transform) => transform.reset?.());
+}
@@ -0,0 +1,160 @@
+const REPLACEMENT_CHARACTER = 0xfffd;
+const CODE_POINT_BATCH_SIZE = 4096;
+
+type NativeDecoder = {
+  decode: (input?: Uint8Array, options?: { stream?: boolean }) => string;
+};
+
+function createNativeDecoder(): NativeDecoder | undefined {
+  if (typeof TextDecoder === 'undefined') {
+    return undefined;
+  }
+  try {
+    return new TextDecoder('utf-8') as NativeDecoder;
+  } catch {
+    return undefined;
+  }
+}
+
+function sequenceLength(leadByte: number): number {
+  if (leadByte < 0x80) {
+    return 1;
+  }
+  if (leadByte >= 0xc2 && leadByte <= 0xdf) {
+    return 2;
+  }
+  if (leadByte >= 0xe0 && leadByte <= 0xef) {
+    return 3;
+  }
+  if (leadByte >= 0xf0 && leadByte <= 0xf4) {
+    return 4;
+  }
+  return 0;
+}
+
+function isContinuationByte(byte: number | undefined): boolean {
+  return byte != null && (byte & 0xc0) === 0x80;
+}
+
+// Range checks for the second byte that reject overlong forms, surrogates and
+// code points above U+10FFFF.
+function isValidSecondByte(leadByte: number, byte: number): boolean {
+  if (leadByte === 0xe0) {
+    return byte >= 0xa0 && byte <= 0xbf;
+  }
+  if (leadByte === 0xed) {
+    return byte >= 0x80 && byte <= 0x9f;
+  }
+  if (leadByte === 0xf0) {
+    return byte >= 0x90 && byte <= 0xbf;
+  }
+  if (leadByte === 0xf4) {
+    return byte >= 0x80 && byte <= 0x8f;
+  }
+  return isContinuationByte(byte);
+}
+
+function codePointsToString(codePoints: number[]): string {
+  let result = '';
+  for (
+    let index = 0;
+    index < codePoints.length;
+    index += CODE_POINT_BATCH_SIZE
+  ) {
+    result += String.fromCodePoint(
+      ...codePoints.slice(index, index + CODE_POINT_BATCH_SIZE)
+    );
+  }
+  return result;
+}
+
+/**
+ * Stateful UTF-8 decoder for byte chunks. Multi-byte sequences split across
+ * chunks are held back until the remaining bytes arrive, so emoji and CJK text
+ * never turn into replacement characters mid-stream. Uses `TextDecoder` in
+ * streaming mode when available and a pure JS decoder otherwise (e.g. Hermes).
+ */
+export class Utf8StreamDecoder {
+  private readonly nativeDecoder = createNativeDecoder();
+  private pending: number[] = [];
+
+  decode(chunk: Uint8Array): string {
+    if (this.nativeDecoder) {
+      return this.nativeDecoder.decode(chunk, { stream: true });
+    }
+
+    const bytes = this.pending.length > 0 ? [...this.pending, ...chunk] : chunk;
+    this.pending = [];
+    const codePoints: number[] = [];
+
+    let index = 0;
+    while (index < bytes.length) {
+      const leadByte = bytes[index] as number;
+      const length = sequenceLength(leadByte);
+
+      if (length === 1) {
+        codePoints.push(leadByte);
+        index += 1;
+        continue;
+      }
+
+      if (length === 0) {
+        codePoints.push(REPLACEMENT_CHARACTER);
+        index += 1;
+        continue;
+      }
+
+      let consumed = 1;
+      let valid = true;
+      while (consumed < length && index + consumed < bytes.length) {
+        const byte = bytes[index + consumed] as number;
+        const isValid =
+          consumed === 1
+            ? isValidSecondByte(leadByte, byte)
+            : isContinuationByte(byte);
+        if (!isValid) {
+          valid = false;
+          break;
+        }
+        consumed += 1;
+      }
+
+      if (!valid) {
+        // Emit one replacement for the malformed prefix and resync on the
+        // offending byte.
+        codePoints.push(REPLACEMENT_CHARACTER);
+        index += consumed;
+        continue;
+      }
+
+      if (consumed < length) {
+        this.pending = Array.from(bytes).slice(index);
+        break;
+      }
+
+      let codePoint = leadByte & (0xff >> (length + 1));
+      for (let offset = 1; offset < length; offset += 1) {
+        codePoint =
+          (codePoint << 6) | ((bytes[index + offset] as number) & 0x3f);
+      }
+      codePoints.push(codePoint);
+      index += length;
+    }
+
+    return codePointsToString(codePoints);
+  }
+
+  /**
+   * Returns any buffered partial sequence (as a replacement character) and
+   * resets the decoder. Call once the stream has ended.
+   */
+  flush(): string {
+    if (this.nativeDecoder) {
+      return this.nativeDecoder.decode();
+    }
+
+    const hasPending = this.pending.length > 0;
+    this.pending = [];
+    return hasPending ? String.fromCodePoint(REPLACEMENT_CHARACTER) : '';
+  }
+}
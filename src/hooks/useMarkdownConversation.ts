@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useMarkdownStream,
+  type MarkdownStreamOptions,
+  type MarkdownStreamSource,
+  type MarkdownStreamStatus,
+  type UseMarkdownStreamResult,
+} from './useMarkdownStream';
+
+export type ConversationRole = 'user' | 'assistant' | 'system';
+
+export interface ConversationMessage {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  /**
+   * Stream status of the message. Messages that never streamed are `completed`.
+   */
+  status: MarkdownStreamStatus;
+}
+
+export interface ConversationMessageInput {
+  id?: string;
+  role: ConversationRole;
+  content: string;
+}
+
+export interface UseMarkdownConversationOptions
+  extends Omit<
+    MarkdownStreamOptions<unknown>,
+    'source' | 'initialValue' | 'autoStart'
+  > {
+  initialMessages?: ConversationMessageInput[];
+  /**
+   * Generates ids for new messages. Defaults to a time-based id.
+   */
+  createId?: () => string;
+}
+
+export interface UseMarkdownConversationResult {
+  /**
+   * All messages; the active one carries the live revealed content and status.
+   */
+  messages: ConversationMessage[];
+  activeMessageId: string | null;
+  isStreaming: boolean;
+  /**
+   * Stream controls of the active message.
+   */
+  stream: UseMarkdownStreamResult;
+  appendMessage: (message: ConversationMessageInput) => string;
+  /**
+   * Appends an empty assistant message and streams `source` into it. Returns the new id.
+   */
+  streamAssistantMessage: (
+    source: MarkdownStreamSource<unknown>,
+    options?: { id?: string }
+  ) => string;
+  /**
+   * Clears the last assistant message and streams it again, from `source` or
+   * the source it was created with. Returns `null` without touching the
+   * message when there is no such message or the stored source is an
+   * iterable, which cannot be replayed.
+   */
+  regenerate: (source?: MarkdownStreamSource<unknown>) => string | null;
+  stop: () => void;
+  removeMessage: (id: string) => void;
+  clear: () => void;
+}
+
+const IN_PROGRESS_STATUSES = new Set<MarkdownStreamStatus>([
+  'connecting',
+  'streaming',
+  'revealing',
+  'paused',
+]);
+
+let messageCounter = 0;
+
+function defaultCreateId(): string {
+  messageCounter += 1;
+  return `msg-${Date.now().toString(36)}-${messageCounter}`;
+}
+
+function toMessage(
+  input: ConversationMessageInput,
+  createId: () => string
+): ConversationMessage {
+  return {
+    id: input.id ?? createId(),
+    role: input.role,
+    content: input.content,
+    status: 'completed',
+  };
+}
+
+export function useMarkdownConversation({
+  initialMessages,
+  createId = defaultCreateId,
+  ...streamOptions
+}: UseMarkdownConversationOptions = {}): UseMarkdownConversationResult {
+  const [messages, setMessages] = useState<ConversationMessage[]>(() =>
+    (initialMessages ?? []).map((message) => toMessage(message, createId))
+  );
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const activeMessageIdRef = useRef<string | null>(null);
+  const sourcesRef = useRef(new Map<string, MarkdownStreamSource<unknown>>());
+  const createIdRef = useRef(createId);
+
+  const stream = useMarkdownStream<unknown>({
+    ...streamOptions,
+    autoStart: false,
+  });
+  const streamRef = useRef(stream);
+
+  useEffect(() => {
+    streamRef.current = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    createIdRef.current = createId;
+  }, [createId]);
+
+  const setActive = useCallback((id: string | null) => {
+    activeMessageIdRef.current = id;
+    setActiveMessageId(id);
+  }, []);
+
+  // Stops the active stream and writes what the user saw back into the list.
+  // An answer that was fully received and is only still being revealed is
+  // kept in full.
+  const detachActive = useCallback(() => {
+    const id = activeMessageIdRef.current;
+    const current = streamRef.current;
+    if (id) {
+      const received = current.status === 'revealing';
+      let status = current.status;
+      if (received) {
+        status = 'completed';
+      } else if (IN_PROGRESS_STATUSES.has(status)) {
+        status = 'cancelled';
+      }
+      const content = received ? current.fullContent : current.content;
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === id ? { ...message, content, status } : message
+        )
+      );
+    }
+    current.stop();
+    setActive(null);
+  }, [setActive]);
+
+  const streamInto = useCallback(
+    (id: string, source: MarkdownStreamSource<unknown>) => {
+      const current = streamRef.current;
+      setActive(id);
+      current.setContent('');
+      void current.start(source);
+    },
+    [setActive]
+  );
+
+  const appendMessage = useCallback((input: ConversationMessageInput) => {
+    const message = toMessage(input, createIdRef.current);
+    setMessages((prev) => [...prev, message]);
+    return message.id;
+  }, []);
+
+  const streamAssistantMessage = useCallback(
+    (source: MarkdownStreamSource<unknown>, options?: { id?: string }) => {
+      detachActive();
+
+      const id = options?.id ?? createIdRef.current();
+      sourcesRef.current.set(id, source);
+      setMessages((prev) => [
+        ...prev,
+        { id, role: 'assistant', content: '', status: 'connecting' },
+      ]);
+      streamInto(id, source);
+      return id;
+    },
+    [detachActive, streamInto]
+  );
+
+  const regenerate = useCallback(
+    (source?: MarkdownStreamSource<unknown>) => {
+      const target = [...messages]
+        .reverse()
+        .find((message) => message.role === 'assistant');
+      if (!target) {
+        return null;
+      }
+
+      const nextSource = source ?? sourcesRef.current.get(target.id);
+      // An exhausted iterable would leave the message empty.
+      if (!nextSource || (!source && typeof nextSource !== 'function')) {
+        return null;
+      }
+
+      detachActive();
+      sourcesRef.current.set(target.id, nextSource);
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === target.id
+            ? { ...message, content: '', status: 'connecting' }
+            : message
+        )
+      );
+      streamInto(target.id, nextSource);
+      return target.id;
+    },
+    [detachActive, messages, streamInto]
+  );
+
+  const stop = useCallback(() => {
+    streamRef.current.stop();
+  }, []);
+
+  const removeMessage = useCallback(
+    (id: string) => {
+      if (activeMessageIdRef.current === id) {
+        streamRef.current.stop();
+        setActive(null);
+      }
+      sourcesRef.current.delete(id);
+      setMessages((prev) => prev.filter((message) => message.id !== id));
+    },
+    [setActive]
+  );
+
+  const clear = useCallback(() => {
+    streamRef.current.stop();
+    setActive(null);
+    sourcesRef.current.clear();
+    setMessages([]);
+  }, [setActive]);
+
+  const visibleMessages = useMemo(
+    () =>
+      messages.map((message) =>
+        message.id === activeMessageId
+          ? { ...message, content: stream.content, status: stream.status }
+          : message
+      ),
+    [activeMessageId, messages, stream.content, stream.status]
+  );
+
+  return useMemo(
+    () => ({
+      messages: visibleMessages,
+      activeMessageId,
+      isStreaming: stream.isStreaming,
+      stream,
+      appendMessage,
+      streamAssistantMessage,
+      regenerate,
+      stop,
+      removeMessage,
+      clear,
+    }),
+    [
+      activeMessageId,
+      appendMessage,
+      clear,
+      regenerate,
+      removeMessage,
+      stop,
+      stream,
+      streamAssistantMessage,
+      visibleMessages,
+    ]
+  );
+}
@@ -1,160 +1,268 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChunkExtractor } from '../core/extractors';
+import {
+  applyTransforms,
+  flushTransforms,
+  resetTransforms,
+  type ChunkTransform,
+} from '../core/transforms';
+import {
+  createRawMetrics,
+  deriveMetrics,
+  type MarkdownStreamMetrics,
+  type RawStreamMetrics,
+} from '../core/metrics';
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  type MarkdownStreamRetryOptions,
+} from '../core/retry';
+import { delay as waitFor } from '../core/delay';
+import { createFrameScheduler } from '../core/frame-scheduler';
+import { RevealSegmenter, type RevealUnit } from '../core/reveal-segmenter';
+import { splitGraphemes, splitWords } from '../core/segmentation';
 import { StreamBuffer } from '../core/stream-buffer';
+import { useReduceMotion } from './useReduceMotion';
+import {
+  toAsyncIterable,
+  type MarkdownStreamSource,
+  type MarkdownStreamSourceContext,
+} from '../core/stream-source';
 
-type ReadableStreamReaderLike<T> = {
-  read: () => Promise<{ done: boolean; value: T }>;
-  releaseLock: () => void;
-};
+export type { MarkdownStreamSource, MarkdownStreamSourceContext };
 
-type ReadableStreamLike<T> = {
-  getReader: () => ReadableStreamReaderLike<T>;
-};
+/**
+ * `sentence`, `line` and `block` hold text back until the unit is complete.
+ * Fenced code blocks and tables are always revealed as one unit in these modes.
+ */
+export type RevealMode =
+  | 'chunk'
+  | 'word'
+  | 'character'
+  | 'sentence'
+  | 'line'
+  | 'block';
 
-export type MarkdownStreamSource<T = unknown> =
-  | AsyncIterable<T>
-  | Iterable<T>
-  | (() =>
-      | AsyncIterable<T>
-      | Iterable<T>
-      | Promise<AsyncIterable<T> | Iterable<T>>)
-  | ReadableStreamLike<T>;
+/**
+ * `fixed` reveals one token per tick. `adaptive` reveals more tokens per tick
+ * as the backlog grows so the display never lags more than `maxRevealLatency`.
+ */
+export type RevealPacing = 'fixed' | 'adaptive';
 
-export type RevealMode = 'chunk' | 'word' | 'character';
+/**
+ * `connecting` waits for the first chunk of an attempt, `streaming` receives
+ * chunks, and `revealing` animates content that has already fully arrived.
+ */
+export type MarkdownStreamStatus =
+  | 'idle'
+  | 'connecting'
+  | 'streaming'
+  | 'revealing'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'errored';
+
+type SettledStatus = Extract<
+  MarkdownStreamStatus,
+  'idle' | 'completed' | 'cancelled' | 'errored'
+>;
+
+const FINAL_STATUSES = new Set<MarkdownStreamStatus>([
+  'completed',
+  'cancelled',
+  'errored',
+]);
 
 export interface MarkdownStreamOptions<T = string> {
   source?: MarkdownStreamSource<T>;
   initialValue?: string;
   autoStart?: boolean;
   onChunk?: (chunk: string) => void;
+  /**
+   * Fires when the source finishes, possibly while the reveal is still typing.
+   */
   onEnd?: () => void;
+  /**
+   * Fires once a completed run is fully visible, i.e. after `onEnd` and the
+   * reveal animation caught up (or `flushReveal()` was called).
+   */
+  onRevealComplete?: () => void;
   onError?: (error: unknown) => void;
   revealMode?: RevealMode;
   revealDelay?: number;
+  /**
+   * Defaults to `fixed`. Ignored when `revealMode="chunk"`.
+   */
+  revealPacing?: RevealPacing;
+  /**
+   * Target upper bound (ms) for how far the revealed text may trail the
+   * received text with `revealPacing="adaptive"`. Defaults to 1000.
+   */
+  maxRevealLatency?: number;
+  /**
+   * Locale(s) for word and grapheme segmentation with `Intl.Segmenter`.
+   * Defaults to the runtime locale.
+   */
+  revealLocale?: string | string[];
+  /**
+   * Caps how often `content`/`fullContent` are committed to React state.
+   * Updates are always coalesced to one commit per animation frame; set this
+   * to throttle further on low-end devices.
+   */
+  maxUpdatesPerSecond?: number;
+  /**
+   * When true (default), the reveal animation is disabled (as with
+   * `revealMode="chunk"`) while the system "reduce motion" setting is on.
+   */
+  respectReduceMotion?: boolean;
+  /**
+   * Maps raw source chunks (e.g. provider JSON envelopes) to markdown text.
+   */
+  extractor?: ChunkExtractor;
+  /**
+   * External abort signal. Aborting it stops the active stream like `stop()`.
+   */
+  signal?: AbortSignal;
+  /**
+   * When true (default), `pause()` also stops pulling chunks from the source
+   * until `resume()`. Set to false to keep buffering network data while the
+   * display is frozen.
+   */
+  pauseSource?: boolean;
+  /**
+   * Retry interrupted streams. Pass the number of retries or a policy with
+   * backoff settings. Only function sources can be retried; they receive the
+   * `attempt` and already received `offset` so the backend can resume.
+   */
+  retry?: number | MarkdownStreamRetryOptions;
+  onRetry?: (error: unknown, attempt: number) => void;
+  onStatusChange?: (
+    status: MarkdownStreamStatus,
+    previousStatus: MarkdownStreamStatus
+  ) => void;
+  /**
+   * Receives the final metrics of a run once it completes (after the reveal
+   * caught up), is cancelled or errors.
+   */
+  onMetrics?: (metrics: MarkdownStreamMetrics) => void;
+  /**
+   * Ordered chunk transformers applied in `appendChunk` before buffering and
+   * reveal. They are flushed when the run ends (completed, failed or
+   * stopped) and reset on every new run.
+   */
+  transforms?: ChunkTransform[];
 }
 
 export interface UseMarkdownStreamResult {
   content: string;
   fullContent: string;
   isStreaming: boolean;
+  isPaused: boolean;
+  /**
+   * True while received text is still queued for the reveal animation.
+   */
+  isRevealing: boolean;
+  status: MarkdownStreamStatus;
+  /**
+   * Error of the last failed run. Cleared when a new run starts or on `reset()`.
+   */
+  error: unknown;
+  /**
+   * Live metrics of the current or last run.
+   */
+  metrics: MarkdownStreamMetrics;
   appendChunk: (chunk: string) => void;
   reset: () => void;
   setContent: (value: string) => void;
   start: (source?: MarkdownStreamSource) => Promise<void>;
   stop: () => void;
+  /**
+   * Freezes the visible content while keeping everything received so far.
+   */
+  pause: () => void;
+  resume: () => void;
+  /**
+   * Skips the reveal animation and shows everything received so far.
+   */
+  flushReveal: () => void;
+  /**
+   * Restarts the last source from where it stopped, keeping the received content.
+   * Does nothing when the source is an iterable, which cannot be replayed.
+   */
+  retry: () => Promise<void>;
+  /**
+   * True when the last source is a function, so `retry()` can restart it.
+   */
+  canRetry: boolean;
   setRevealMode: (mode: RevealMode) => void;
   setRevealDelay: (delay: number) => void;
 }
 
-type AsyncOrSyncIterable<T> = AsyncIterable<T> | Iterable<T>;
-type ResolvedSource<T> = AsyncOrSyncIterable<T> | ReadableStreamLike<T>;
-
-const textDecoder =
-  typeof TextDecoder !== 'undefined' ? new TextDecoder() : undefined;
 const DEFAULT_REVEAL_DELAY = 28;
+const DEFAULT_MAX_REVEAL_LATENCY = 1000;
 
-function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
-  return (
-    typeof (value as AsyncIterable<T>)?.[Symbol.asyncIterator] === 'function'
-  );
-}
-
-function isIterable<T>(value: unknown): value is Iterable<T> {
-  return typeof (value as Iterable<T>)?.[Symbol.iterator] === 'function';
+function isRevealUnit(mode: RevealMode): mode is RevealUnit {
+  return mode === 'sentence' || mode === 'line' || mode === 'block';
 }
 
-function isReadableStream<T>(value: unknown): value is ReadableStreamLike<T> {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    typeof (value as ReadableStreamLike<T>).getReader === 'function'
-  );
-}
-
-function normalizeChunk(chunk: unknown): string {
-  if (typeof chunk === 'string') {
-    return chunk;
-  }
-
-  if (chunk instanceof Uint8Array) {
-    if (textDecoder) {
-      return textDecoder.decode(chunk);
-    }
-    return Array.from(chunk)
-      .map((value) => String.fromCharCode(value))
-      .join('');
-  }
-
-  if (chunk == null) {
-    return '';
+function tokenize(
+  chunk: string,
+  mode: RevealMode,
+  locale: string | string[] | undefined
+): string[] {
+  if (mode === 'character') {
+    return splitGraphemes(chunk, locale);
   }
 
-  if (typeof chunk === 'object' && 'toString' in chunk) {
-    return String(chunk);
+  if (mode === 'word') {
+    return splitWords(chunk, locale);
   }
 
-  return String(chunk);
+  return [chunk];
 }
 
-async function resolveSource<T>(
-  source: MarkdownStreamSource<T>
-): Promise<ResolvedSource<T>> {
-  if (typeof source === 'function') {
-    const result = source();
-    return Promise.resolve(result);
-  }
-
-  return source;
+// Tokens queued together by one `appendTokens` call, in queue order.
+interface QueuedBatch {
+  size: number;
+  queuedAt: number;
 }
 
-async function* toAsyncIterable<T>(
-  source: MarkdownStreamSource<T>
-): AsyncGenerator<string> {
-  const resolved = await resolveSource(source);
-
-  if (isReadableStream(resolved)) {
-    const reader = resolved.getReader();
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
-        }
-        yield normalizeChunk(value);
-      }
-    } finally {
-      reader.releaseLock();
-    }
-    return;
-  }
-
-  if (isAsyncIterable(resolved)) {
-    for await (const chunk of resolved) {
-      yield normalizeChunk(chunk);
-    }
-    return;
+// Sizes each tick so every queued token is on screen within `maxLatency` of
+// being queued. The most urgent batch sets the step, so small backlogs still
+// reveal one token per tick.
+function getTokensPerTick(
+  batches: QueuedBatch[],
+  delay: number,
+  pacing: RevealPacing,
+  maxLatency: number,
+  now: number
+): number {
+  if (pacing === 'fixed') {
+    return 1;
   }
-
-  if (isIterable(resolved)) {
-    for (const chunk of resolved) {
-      yield normalizeChunk(chunk);
-    }
-    return;
+  let count = 1;
+  let queued = 0;
+  for (const batch of batches) {
+    queued += batch.size;
+    const ticks = Math.floor((batch.queuedAt + maxLatency - now) / delay);
+    count = Math.max(count, Math.ceil(queued / Math.max(1, ticks)));
   }
-
-  throw new Error('[react-native-markdown-stream] Unsupported stream source');
+  return count;
 }
 
-function tokenize(chunk: string, mode: RevealMode): string[] {
-  if (mode === 'character') {
-    return chunk.split('');
-  }
-
-  if (mode === 'word') {
-    const tokens = chunk.match(/(\s+|\S+)/g);
-    return tokens ?? [chunk];
+function dropRevealedBatches(batches: QueuedBatch[], count: number) {
+  let rest = count;
+  let head = batches[0];
+  while (rest > 0 && head) {
+    if (head.size > rest) {
+      head.size -= rest;
+      return;
+    }
+    rest -= head.size;
+    batches.shift();
+    head = batches[0];
   }
-
-  return [chunk];
 }
 
 function clampDelay(value: number | undefined): number {
@@ -173,30 +281,174 @@ export function useMarkdownStream<T = string>({
   autoStart = true,
   onChunk,
   onEnd,
+  onRevealComplete,
   onError,
   revealMode = 'chunk',
   revealDelay = DEFAULT_REVEAL_DELAY,
+  revealPacing = 'fixed',
+  maxRevealLatency = DEFAULT_MAX_REVEAL_LATENCY,
+  revealLocale,
+  maxUpdatesPerSecond,
+  respectReduceMotion = true,
+  extractor,
+  signal,
+  pauseSource = true,
+  retry,
+  onRetry,
+  onStatusChange,
+  onMetrics,
+  transforms,
 }: MarkdownStreamOptions<T> = {}): UseMarkdownStreamResult {
   const bufferRef = useRef(new StreamBuffer(initialValue));
-  const controllerRef = useRef<{ cancelled: boolean } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
   const sourceRef = useRef<MarkdownStreamSource<T> | undefined>(source);
+  const extractorRef = useRef<ChunkExtractor | undefined>(extractor);
+  const signalRef = useRef<AbortSignal | undefined>(signal);
+  const pausedRef = useRef(false);
+  const pauseSourceRef = useRef(pauseSource);
+  const resumeWaitersRef = useRef<Array<() => void>>([]);
+  const retryRef = useRef(retry);
+  const transformsRef = useRef<ChunkTransform[] | undefined>(transforms);
+  const lastRunRef = useRef<{
+    source: MarkdownStreamSource<T>;
+    attempt: number;
+    offset: number;
+  } | null>(null);
+  const statusRef = useRef<MarkdownStreamStatus>('idle');
+  const activeStatusRef = useRef<'connecting' | 'streaming'>('connecting');
+  const settledStatusRef = useRef<SettledStatus>('idle');
+  const metricsRef = useRef<RawStreamMetrics>(createRawMetrics(null));
+  const metricsPendingRef = useRef(false);
+  // Set when a chunk changed the counters since the last frame commit.
+  const metricsChangedRef = useRef(false);
   const revealTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const pendingTokensRef = useRef<string[]>([]);
-  const revealModeRef = useRef<RevealMode>(revealMode);
+  const pendingBatchesRef = useRef<QueuedBatch[]>([]);
+  const segmenterRef = useRef<RevealSegmenter | null>(null);
+  const reduceMotion = useReduceMotion(respectReduceMotion);
+  const reduceMotionRef = useRef(reduceMotion);
+  const effectiveRevealMode: RevealMode = reduceMotion ? 'chunk' : revealMode;
+  const revealModeRef = useRef<RevealMode>(effectiveRevealMode);
   const revealDelayRef = useRef<number>(clampDelay(revealDelay));
+  const revealPacingRef = useRef<RevealPacing>(revealPacing);
+  const maxRevealLatencyRef = useRef(maxRevealLatency);
+  const revealLocaleRef = useRef(revealLocale);
+  const maxUpdatesPerSecondRef = useRef(maxUpdatesPerSecond);
+  // Latest revealed text; React state only receives batched snapshots of it.
+  const contentRef = useRef(initialValue);
   const callbacksRef = useRef<{
     onChunk?: (chunk: string) => void;
     onEnd?: () => void;
+    onRevealComplete?: () => void;
     onError?: (error: unknown) => void;
+    onRetry?: (error: unknown, attempt: number) => void;
+    onStatusChange?: (
+      status: MarkdownStreamStatus,
+      previousStatus: MarkdownStreamStatus
+    ) => void;
+    onMetrics?: (metrics: MarkdownStreamMetrics) => void;
   }>({
     onChunk,
     onEnd,
+    onRevealComplete,
     onError,
+    onRetry,
+    onStatusChange,
+    onMetrics,
   });
 
   const [content, setContent] = useState(initialValue);
   const [fullContent, setFullContent] = useState(initialValue);
+  const [metrics, setMetrics] = useState<MarkdownStreamMetrics>(() =>
+    deriveMetrics(metricsRef.current)
+  );
+  const [scheduler] = useState(() =>
+    createFrameScheduler(
+      () => {
+        setContent(contentRef.current);
+        setFullContent(bufferRef.current.value);
+        // Live metrics ride along with the batched content update.
+        if (metricsChangedRef.current) {
+          metricsChangedRef.current = false;
+          setMetrics(deriveMetrics(metricsRef.current));
+        }
+      },
+      () => maxUpdatesPerSecondRef.current
+    )
+  );
   const [isStreaming, setIsStreaming] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [status, setStatus] = useState<MarkdownStreamStatus>('idle');
+  const [lastError, setLastError] = useState<unknown>(undefined);
+  const [canRetry, setCanRetry] = useState(false);
+
+  const publishMetrics = useCallback(() => {
+    setMetrics(deriveMetrics(metricsRef.current));
+  }, []);
+
+  const finalizeMetrics = useCallback((finalStatus: MarkdownStreamStatus) => {
+    if (!metricsPendingRef.current) {
+      return;
+    }
+    metricsPendingRef.current = false;
+
+    const raw = metricsRef.current;
+    const finishedAt = Date.now();
+    if (raw.endedAt == null) {
+      raw.endedAt = finishedAt;
+    }
+    if (finalStatus === 'completed') {
+      raw.revealedAt = finishedAt;
+    }
+
+    const snapshot = deriveMetrics(raw, finishedAt);
+    setMetrics(snapshot);
+    callbacksRef.current.onMetrics?.(snapshot);
+  }, []);
+
+  const updateStatus = useCallback(
+    (next: MarkdownStreamStatus) => {
+      const previous = statusRef.current;
+      if (previous === next) {
+        return;
+      }
+      statusRef.current = next;
+      setStatus(next);
+      callbacksRef.current.onStatusChange?.(next, previous);
+      if (FINAL_STATUSES.has(next)) {
+        finalizeMetrics(next);
+      }
+      if (next === 'completed') {
+        // Make sure the last batched update is on screen before announcing it.
+        scheduler.flush();
+        callbacksRef.current.onRevealComplete?.();
+      }
+    },
+    [finalizeMetrics, scheduler]
+  );
+
+  // Derives the current status from the run, pause and reveal state.
+  const settleStatus = useCallback(() => {
+    setIsRevealing(pendingTokensRef.current.length > 0);
+    if (pausedRef.current) {
+      updateStatus('paused');
+      return;
+    }
+    if (controllerRef.current) {
+      updateStatus(activeStatusRef.current);
+      return;
+    }
+    const settled = settledStatusRef.current;
+    if (
+      pendingTokensRef.current.length > 0 &&
+      (settled === 'idle' || settled === 'completed')
+    ) {
+      updateStatus('revealing');
+      return;
+    }
+    updateStatus(settled);
+  }, [updateStatus]);
 
   const clearRevealTimer = useCallback(() => {
     if (revealTimerRef.current) {
@@ -205,48 +457,139 @@ export function useMarkdownStream<T = string>({
     }
   }, []);
 
+  const showContent = useCallback(
+    (value: string) => {
+      contentRef.current = value;
+      scheduler.schedule();
+    },
+    [scheduler]
+  );
+
+  const revealText = useCallback(
+    (text: string) => {
+      contentRef.current += text;
+      scheduler.schedule();
+    },
+    [scheduler]
+  );
+
+  // Replaces both values immediately, dropping any batched update.
+  const replaceContent = useCallback(
+    (value: string) => {
+      contentRef.current = value;
+      scheduler.cancel();
+      setContent(value);
+      setFullContent(bufferRef.current.value);
+    },
+    [scheduler]
+  );
+
   const flushRevealQueue = useCallback(() => {
     pendingTokensRef.current = [];
+    segmenterRef.current = null;
     clearRevealTimer();
   }, [clearRevealTimer]);
 
   useEffect(() => {
-    callbacksRef.current = { onChunk, onEnd, onError };
-  }, [onChunk, onEnd, onError]);
+    callbacksRef.current = {
+      onChunk,
+      onEnd,
+      onRevealComplete,
+      onError,
+      onRetry,
+      onStatusChange,
+      onMetrics,
+    };
+  }, [
+    onChunk,
+    onEnd,
+    onError,
+    onMetrics,
+    onRetry,
+    onRevealComplete,
+    onStatusChange,
+  ]);
 
   useEffect(() => {
     sourceRef.current = source;
   }, [source]);
 
   useEffect(() => {
-    revealModeRef.current = revealMode;
-    if (revealMode === 'chunk') {
+    extractorRef.current = extractor;
+  }, [extractor]);
+
+  useEffect(() => {
+    signalRef.current = signal;
+  }, [signal]);
+
+  useEffect(() => {
+    pauseSourceRef.current = pauseSource;
+  }, [pauseSource]);
+
+  useEffect(() => {
+    retryRef.current = retry;
+  }, [retry]);
+
+  useEffect(() => {
+    transformsRef.current = transforms;
+  }, [transforms]);
+
+  useEffect(() => {
+    reduceMotionRef.current = reduceMotion;
+  }, [reduceMotion]);
+
+  useEffect(() => {
+    revealModeRef.current = effectiveRevealMode;
+    if (effectiveRevealMode === 'chunk') {
       flushRevealQueue();
-      setContent(bufferRef.current.value);
+      showContent(bufferRef.current.value);
+      settleStatus();
     }
-  }, [flushRevealQueue, revealMode]);
+  }, [effectiveRevealMode, flushRevealQueue, settleStatus, showContent]);
 
   useEffect(() => {
     revealDelayRef.current = clampDelay(revealDelay);
   }, [revealDelay]);
 
+  useEffect(() => {
+    revealPacingRef.current = revealPacing;
+  }, [revealPacing]);
+
+  useEffect(() => {
+    maxRevealLatencyRef.current = maxRevealLatency;
+  }, [maxRevealLatency]);
+
+  useEffect(() => {
+    revealLocaleRef.current = revealLocale;
+  }, [revealLocale]);
+
+  useEffect(() => {
+    maxUpdatesPerSecondRef.current = maxUpdatesPerSecond;
+  }, [maxUpdatesPerSecond]);
+
   useEffect(() => {
     bufferRef.current = new StreamBuffer(initialValue);
     pendingTokensRef.current = [];
+    segmenterRef.current = null;
     clearRevealTimer();
-    setContent(initialValue);
-    setFullContent(initialValue);
-  }, [clearRevealTimer, initialValue]);
+    replaceContent(initialValue);
+  }, [clearRevealTimer, initialValue, replaceContent]);
 
+  // Unmounting ends the active run, including one started manually with
+  // `autoStart: false`, so the source stops downloading.
   useEffect(
     () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      resumeWaitersRef.current.splice(0).forEach((release) => release());
       clearRevealTimer();
+      scheduler.cancel();
     },
-    [clearRevealTimer]
+    [clearRevealTimer, scheduler]
   );
 
   const startRevealLoop = useCallback(() => {
-    if (revealTimerRef.current) {
+    if (revealTimerRef.current || pausedRef.current) {
       return;
     }
 
@@ -258,74 +601,191 @@ export function useMarkdownStream<T = string>({
     if (delay <= 0) {
       const tokens = pendingTokensRef.current.splice(0);
       if (tokens.length > 0) {
-        setContent((prev) => prev + tokens.join(''));
+        revealText(tokens.join(''));
       }
+      settleStatus();
       return;
     }
 
     revealTimerRef.current = setInterval(() => {
-      const token = pendingTokensRef.current.shift();
-      if (token == null) {
+      const queue = pendingTokensRef.current;
+      if (queue.length === 0) {
         clearRevealTimer();
+        settleStatus();
         return;
       }
 
-      setContent((prev) => prev + token);
+      const count = getTokensPerTick(
+        pendingBatchesRef.current,
+        delay,
+        revealPacingRef.current,
+        maxRevealLatencyRef.current,
+        Date.now()
+      );
+      dropRevealedBatches(pendingBatchesRef.current, count);
+      const text = queue.splice(0, count).join('');
+      revealText(text);
     }, delay);
-  }, [clearRevealTimer]);
+  }, [clearRevealTimer, revealText, settleStatus]);
 
   const appendTokens = useCallback(
     (tokens: string[]) => {
       if (tokens.length === 0) {
         return;
       }
+      if (pendingTokensRef.current.length === 0) {
+        // The queue may have been cleared without consuming its batches.
+        pendingBatchesRef.current = [];
+      }
       pendingTokensRef.current.push(...tokens);
+      pendingBatchesRef.current.push({
+        size: tokens.length,
+        queuedAt: Date.now(),
+      });
       startRevealLoop();
     },
     [startRevealLoop]
   );
 
-  const stop = useCallback(() => {
-    if (controllerRef.current) {
-      controllerRef.current.cancelled = true;
-      controllerRef.current = null;
-      setIsStreaming(false);
+  const releaseResumeWaiters = useCallback(() => {
+    const waiters = resumeWaitersRef.current.splice(0);
+    waiters.forEach((release) => release());
+  }, []);
+
+  const waitForResume = useCallback(
+    () =>
+      new Promise<void>((resolve) => {
+        resumeWaitersRef.current.push(resolve);
+      }),
+    []
+  );
+
+  const pause = useCallback(() => {
+    if (pausedRef.current) {
+      return;
     }
-    flushRevealQueue();
-  }, [flushRevealQueue]);
+    pausedRef.current = true;
+    setIsPaused(true);
+    clearRevealTimer();
+    settleStatus();
+  }, [clearRevealTimer, settleStatus]);
 
-  const appendChunk = useCallback(
+  const resume = useCallback(() => {
+    if (!pausedRef.current) {
+      return;
+    }
+    pausedRef.current = false;
+    setIsPaused(false);
+    releaseResumeWaiters();
+
+    if (revealModeRef.current === 'chunk') {
+      showContent(bufferRef.current.value);
+    } else {
+      startRevealLoop();
+    }
+    settleStatus();
+  }, [releaseResumeWaiters, settleStatus, showContent, startRevealLoop]);
+
+  const flushReveal = useCallback(() => {
+    // The segmenter is kept so an open fence or table is still released as
+    // one unit once the rest of it streams in.
+    segmenterRef.current?.release();
+    pendingTokensRef.current = [];
+    clearRevealTimer();
+    showContent(bufferRef.current.value);
+    scheduler.flush();
+    settleStatus();
+  }, [clearRevealTimer, scheduler, settleStatus, showContent]);
+
+  // Appends already transformed text to the buffer and the reveal queue.
+  const commitText = useCallback(
     (chunk: string) => {
       if (!chunk) {
         return;
       }
 
       bufferRef.current.append(chunk);
-      const nextFullValue = bufferRef.current.value;
-      setFullContent(nextFullValue);
+      scheduler.schedule();
 
       const mode = revealModeRef.current;
       if (mode === 'chunk') {
         flushRevealQueue();
-        setContent(nextFullValue);
+        if (!pausedRef.current) {
+          showContent(bufferRef.current.value);
+        }
+      } else if (isRevealUnit(mode)) {
+        let segmenter = segmenterRef.current;
+        if (segmenter?.unit !== mode) {
+          appendTokens(segmenter?.flush() ?? []);
+          segmenter = new RevealSegmenter(mode);
+          segmenterRef.current = segmenter;
+        }
+        appendTokens(segmenter.push(chunk));
       } else {
-        const tokens = tokenize(chunk, mode);
+        appendTokens(segmenterRef.current?.flush() ?? []);
+        segmenterRef.current = null;
+        const tokens = tokenize(chunk, mode, revealLocaleRef.current);
         appendTokens(tokens);
       }
+      settleStatus();
 
       callbacksRef.current.onChunk?.(chunk);
     },
-    [appendTokens, flushRevealQueue]
+    [appendTokens, flushRevealQueue, scheduler, settleStatus, showContent]
+  );
+
+  // Queues a sentence/line/block that is still incomplete when the source ends.
+  const releaseHeldUnits = useCallback(() => {
+    appendTokens(segmenterRef.current?.flush() ?? []);
+    segmenterRef.current = null;
+  }, [appendTokens]);
+
+  const stop = useCallback(() => {
+    if (controllerRef.current || pendingTokensRef.current.length > 0) {
+      settledStatusRef.current = 'cancelled';
+    }
+    if (controllerRef.current) {
+      // Text a transform still holds back belongs to the answer.
+      commitText(flushTransforms(transformsRef.current));
+      controllerRef.current.abort();
+      controllerRef.current = null;
+      setIsStreaming(false);
+    }
+    pausedRef.current = false;
+    setIsPaused(false);
+    releaseResumeWaiters();
+    flushRevealQueue();
+    settleStatus();
+  }, [commitText, flushRevealQueue, releaseResumeWaiters, settleStatus]);
+
+  const appendChunk = useCallback(
+    (chunk: string) => {
+      if (!chunk) {
+        return;
+      }
+
+      const raw = metricsRef.current;
+      if (raw.firstChunkAt == null) {
+        raw.firstChunkAt = Date.now();
+      }
+      raw.chunkCount += 1;
+      raw.characterCount += chunk.length;
+      metricsChangedRef.current = true;
+      scheduler.schedule();
+
+      commitText(applyTransforms(transformsRef.current, chunk));
+    },
+    [commitText, scheduler]
   );
 
   const setContentDirect = useCallback(
     (value: string) => {
       bufferRef.current = new StreamBuffer(value);
-      setFullContent(value);
       flushRevealQueue();
-      setContent(value);
+      replaceContent(value);
+      settleStatus();
     },
-    [flushRevealQueue]
+    [flushRevealQueue, replaceContent, settleStatus]
   );
 
   const reset = useCallback(() => {
@@ -335,50 +795,176 @@ export function useMarkdownStream<T = string>({
     }
     const nextValue = bufferRef.current.value;
     pendingTokensRef.current = [];
+    segmenterRef.current = null;
     clearRevealTimer();
-    setFullContent(nextValue);
-    setContent(nextValue);
-  }, [clearRevealTimer, initialValue]);
+    resetTransforms(transformsRef.current);
+    replaceContent(nextValue);
+    if (!controllerRef.current) {
+      settledStatusRef.current = 'idle';
+      setLastError(undefined);
+    }
+    settleStatus();
+  }, [clearRevealTimer, initialValue, replaceContent, settleStatus]);
 
-  const start = useCallback(
-    async (overrideSource?: MarkdownStreamSource) => {
-      const activeSource =
-        (overrideSource as MarkdownStreamSource<T>) ?? sourceRef.current;
-      if (!activeSource) {
+  const run = useCallback(
+    async (
+      activeSource: MarkdownStreamSource<T>,
+      initialAttempt: number,
+      initialOffset: number
+    ) => {
+      stop();
+
+      const externalSignal = signalRef.current;
+      if (externalSignal?.aborted) {
         return;
       }
 
-      stop();
-
-      const controller = { cancelled: false };
+      const controller = new AbortController();
       controllerRef.current = controller;
+      const handleExternalAbort = () => {
+        if (controllerRef.current === controller) {
+          stop();
+        }
+      };
+      externalSignal?.addEventListener('abort', handleExternalAbort);
       setIsStreaming(true);
+      setLastError(undefined);
+
+      if (initialAttempt === 0) {
+        resetTransforms(transformsRef.current);
+        metricsRef.current = createRawMetrics(Date.now());
+      } else {
+        metricsRef.current.endedAt = null;
+        metricsRef.current.revealedAt = null;
+        metricsRef.current.retryCount += 1;
+      }
+      metricsPendingRef.current = true;
+      publishMetrics();
+
+      activeStatusRef.current = 'connecting';
+      settleStatus();
+
+      const policy = resolveRetryPolicy(retryRef.current);
+      const runState = {
+        source: activeSource,
+        attempt: initialAttempt,
+        offset: initialOffset,
+      };
+      lastRunRef.current = runState;
+      setCanRetry(typeof activeSource === 'function');
+      let retriesLeft = policy?.attempts ?? 0;
 
       try {
-        for await (const chunk of toAsyncIterable(activeSource)) {
-          if (controller.cancelled) {
-            break;
-          }
-          appendChunk(chunk);
-        }
+        while (true) {
+          try {
+            for await (const chunk of toAsyncIterable(activeSource, {
+              extractor: extractorRef.current,
+              signal: controller.signal,
+              resume: { attempt: runState.attempt, offset: runState.offset },
+            })) {
+              if (controller.signal.aborted) {
+                break;
+              }
+              activeStatusRef.current = 'streaming';
+              appendChunk(chunk);
+              runState.offset += chunk.length;
 
-        if (!controller.cancelled) {
-          callbacksRef.current.onEnd?.();
-        }
-      } catch (error) {
-        if (!controller.cancelled) {
-          callbacksRef.current.onError?.(error);
+              if (pausedRef.current && pauseSourceRef.current) {
+                await waitForResume();
+                if (controller.signal.aborted) {
+                  break;
+                }
+              }
+            }
+
+            if (!controller.signal.aborted) {
+              commitText(flushTransforms(transformsRef.current));
+              releaseHeldUnits();
+              settledStatusRef.current = 'completed';
+              metricsRef.current.endedAt = Date.now();
+              publishMetrics();
+              callbacksRef.current.onEnd?.();
+            }
+            return;
+          } catch (error) {
+            if (controller.signal.aborted) {
+              return;
+            }
+
+            const retryNumber = (policy?.attempts ?? 0) - retriesLeft + 1;
+            const shouldRetryNow =
+              policy != null &&
+              retriesLeft > 0 &&
+              typeof activeSource === 'function' &&
+              (policy.shouldRetry?.(error, retryNumber) ?? true);
+
+            if (!shouldRetryNow) {
+              commitText(flushTransforms(transformsRef.current));
+              releaseHeldUnits();
+              settledStatusRef.current = 'errored';
+              setLastError(error);
+              callbacksRef.current.onError?.(error);
+              return;
+            }
+
+            retriesLeft -= 1;
+            runState.attempt += 1;
+            metricsRef.current.retryCount += 1;
+            activeStatusRef.current = 'connecting';
+            settleStatus();
+            callbacksRef.current.onRetry?.(error, runState.attempt);
+            await waitFor(
+              getRetryDelay(policy, retryNumber),
+              controller.signal
+            );
+            if (controller.signal.aborted) {
+              return;
+            }
+          }
         }
       } finally {
+        externalSignal?.removeEventListener('abort', handleExternalAbort);
         if (controllerRef.current === controller) {
           controllerRef.current = null;
+          setIsStreaming(false);
+          settleStatus();
         }
-        setIsStreaming(false);
       }
     },
-    [appendChunk, stop]
+    [
+      appendChunk,
+      commitText,
+      publishMetrics,
+      releaseHeldUnits,
+      settleStatus,
+      stop,
+      waitForResume,
+    ]
+  );
+
+  const start = useCallback(
+    async (overrideSource?: MarkdownStreamSource) => {
+      const activeSource =
+        (overrideSource as MarkdownStreamSource<T>) ?? sourceRef.current;
+      if (!activeSource) {
+        return;
+      }
+
+      await run(activeSource, 0, 0);
+    },
+    [run]
   );
 
+  const retryLastRun = useCallback(async () => {
+    const lastRun = lastRunRef.current;
+    // An exhausted iterator would only end the retry as `completed`.
+    if (typeof lastRun?.source !== 'function') {
+      return;
+    }
+
+    await run(lastRun.source, lastRun.attempt + 1, lastRun.offset);
+  }, [run]);
+
   useEffect(() => {
     if (!source || autoStart === false) {
       return;
@@ -389,13 +975,14 @@ export function useMarkdownStream<T = string>({
 
   const setRevealMode = useCallback(
     (mode: RevealMode) => {
-      revealModeRef.current = mode;
-      if (mode === 'chunk') {
+      revealModeRef.current = reduceMotionRef.current ? 'chunk' : mode;
+      if (revealModeRef.current === 'chunk') {
         flushRevealQueue();
-        setContent(bufferRef.current.value);
+        showContent(bufferRef.current.value);
+        settleStatus();
       }
     },
-    [flushRevealQueue]
+    [flushRevealQueue, settleStatus, showContent]
   );
 
   const setRevealDelay = useCallback((delay: number) => {
@@ -407,24 +994,44 @@ export function useMarkdownStream<T = string>({
       content,
       fullContent,
       isStreaming,
+      isPaused,
+      isRevealing,
+      status,
+      error: lastError,
+      metrics,
       appendChunk,
       reset,
       setContent: setContentDirect,
       start,
       stop,
+      pause,
+      resume,
+      flushReveal,
+      retry: retryLastRun,
+      canRetry,
       setRevealMode,
       setRevealDelay,
     }),
     [
       appendChunk,
+      canRetry,
       content,
+      flushReveal,
       fullContent,
+      isPaused,
+      isRevealing,
       isStreaming,
+      lastError,
+      metrics,
+      pause,
       reset,
+      resume,
+      retryLastRun,
       setContentDirect,
       setRevealDelay,
       setRevealMode,
       start,
+      status,
       stop,
     ]
   );
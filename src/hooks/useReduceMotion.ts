@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/**
+ * Tracks the system "reduce motion" setting. Always `false` while `enabled`
+ * is false.
+ */
+export function useReduceMotion(enabled = true): boolean {
+  const [reduceMotion, setReduceMotion] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let isMounted = true;
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then((value) => {
+        if (isMounted) {
+          setReduceMotion(value);
+        }
+      })
+      .catch(() => {
+        // Keep animations when the setting cannot be read.
+      });
+    const subscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      setReduceMotion
+    );
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, [enabled]);
+
+  return enabled && reduceMotion;
+}
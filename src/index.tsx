@@ -1,14 +1,20 @@
-import { useEffect, useMemo, useRef } from 'react';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { View } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
 import type { Root } from 'mdast';
 import { parseMarkdown } from './core/parser';
+import { createIncrementalParser } from './core/incremental-parser';
 import type { MarkdownRendererProps } from './renderers/MarkdownRenderer';
 import { MarkdownRenderer } from './renderers/MarkdownRenderer';
+import { StreamErrorBlock } from './renderers/StreamErrorBlock';
 import {
   useMarkdownStream,
   type MarkdownStreamOptions,
   type MarkdownStreamSource,
   type UseMarkdownStreamResult,
 } from './hooks/useMarkdownStream';
+import type { ConversationMessage } from './hooks/useMarkdownConversation';
 import { resolveTheme } from './core/themes';
 
 export interface MarkdownStreamProps
@@ -18,11 +24,25 @@ export interface MarkdownStreamProps
       | 'autoStart'
       | 'onChunk'
       | 'onEnd'
+      | 'onRevealComplete'
       | 'onError'
       | 'revealMode'
       | 'revealDelay'
+      | 'revealPacing'
+      | 'maxRevealLatency'
+      | 'revealLocale'
+      | 'maxUpdatesPerSecond'
+      | 'respectReduceMotion'
+      | 'extractor'
+      | 'signal'
+      | 'pauseSource'
+      | 'retry'
+      | 'onRetry'
+      | 'onStatusChange'
+      | 'onMetrics'
+      | 'transforms'
     > {
-  source?: MarkdownStreamSource<string>;
+  source?: MarkdownStreamSource<unknown>;
   /**
    * Provide fully rendered markdown content. When provided, streaming is bypassed unless you call `start`.
    */
@@ -52,6 +72,19 @@ export interface MarkdownStreamProps
    * Override the resolved theme's muted text color without redefining the full theme.
    */
   mutedTextColor?: string;
+  /**
+   * Render an inline error block with a retry action when the stream fails.
+   */
+  showErrorBlock?: boolean;
+  /**
+   * Custom label for the error block's retry button.
+   */
+  errorRetryLabel?: string;
+  /**
+   * Reuse the parsed trees of completed top-level blocks and only reparse the
+   * last open block on each update. Recommended for long answers.
+   */
+  incrementalParsing?: boolean;
 }
 
 export function MarkdownStream({
@@ -61,12 +94,29 @@ export function MarkdownStream({
   autoStart,
   onChunk,
   onEnd,
+  onRevealComplete,
   onError,
   onReady,
   onContentChange,
   shouldStop,
   revealMode,
   revealDelay,
+  revealPacing,
+  maxRevealLatency,
+  revealLocale,
+  maxUpdatesPerSecond,
+  respectReduceMotion,
+  extractor,
+  signal,
+  pauseSource,
+  retry,
+  onRetry,
+  onStatusChange,
+  onMetrics,
+  transforms,
+  showErrorBlock = false,
+  errorRetryLabel,
+  incrementalParsing = false,
   theme = 'light',
   textColor,
   mutedTextColor,
@@ -78,9 +128,23 @@ export function MarkdownStream({
     autoStart,
     onChunk,
     onEnd,
+    onRevealComplete,
     onError,
     revealMode,
     revealDelay,
+    revealPacing,
+    maxRevealLatency,
+    revealLocale,
+    maxUpdatesPerSecond,
+    respectReduceMotion,
+    extractor,
+    signal,
+    pauseSource,
+    retry,
+    onRetry,
+    onStatusChange,
+    onMetrics,
+    transforms,
   });
 
   useEffect(() => {
@@ -114,9 +178,14 @@ export function MarkdownStream({
     }
   }, [shouldStop, stream]);
 
+  const [incrementalParser] = useState(createIncrementalParser);
+
   const ast: Root = useMemo(
-    () => parseMarkdown(stream.content),
-    [stream.content]
+    () =>
+      incrementalParsing
+        ? incrementalParser.parse(stream.content)
+        : parseMarkdown(stream.content),
+    [incrementalParser, incrementalParsing, stream.content]
   );
 
   const themePreference = useMemo(() => {
@@ -131,15 +200,88 @@ export function MarkdownStream({
     };
   }, [mutedTextColor, textColor, theme]);
 
-  return (
+  const errorTheme = useMemo(
+    () => resolveTheme(themePreference),
+    [themePreference]
+  );
+
+  const renderer = (
     <MarkdownRenderer {...rendererProps} theme={themePreference} ast={ast} />
   );
+
+  if (!showErrorBlock || stream.status !== 'errored') {
+    return renderer;
+  }
+
+  return (
+    <Fragment>
+      {renderer}
+      <StreamErrorBlock
+        error={stream.error}
+        theme={errorTheme}
+        retryLabel={errorRetryLabel}
+        onRetry={
+          stream.canRetry
+            ? () => {
+                void stream.retry();
+              }
+            : undefined
+        }
+      />
+    </Fragment>
+  );
+}
+
+export interface MarkdownConversationProps
+  extends Omit<
+      MarkdownRendererProps,
+      'ast' | 'virtualized' | 'virtualizedListProps' | 'estimateBlockHeight'
+    >,
+    Pick<
+      MarkdownStreamProps,
+      'textColor' | 'mutedTextColor' | 'incrementalParsing'
+    > {
+  /**
+   * Messages to render, typically `useMarkdownConversation().messages`.
+   */
+  messages: ConversationMessage[];
+  /**
+   * Wrap a rendered message, e.g. in a role-specific bubble.
+   */
+  renderMessage?: (
+    message: ConversationMessage,
+    children: ReactNode
+  ) => ReactNode;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function MarkdownConversation({
+  messages,
+  renderMessage,
+  style,
+  ...markdownProps
+}: MarkdownConversationProps) {
+  return (
+    <View style={style}>
+      {messages.map((message) => {
+        const element = (
+          <MarkdownStream {...markdownProps} content={message.content} />
+        );
+        return (
+          <Fragment key={message.id}>
+            {renderMessage ? renderMessage(message, element) : element}
+          </Fragment>
+        );
+      })}
+    </View>
+  );
 }
 
 export type {
   MarkdownRendererProps,
   MarkdownRendererComponents,
 } from './renderers/MarkdownRenderer';
+export type { VirtualizedListProps } from './renderers/VirtualizedBlockList';
 export type {
   MarkdownTheme,
   MarkdownThemeConfig,
@@ -149,9 +291,74 @@ export type {
 export type {
   MarkdownStreamOptions,
   MarkdownStreamSource,
+  MarkdownStreamSourceContext,
+  MarkdownStreamStatus,
   RevealMode,
+  RevealPacing,
   UseMarkdownStreamResult,
 } from './hooks/useMarkdownStream';
+export type { ChunkExtractor } from './core/extractors';
+export type { IncrementalParser } from './core/incremental-parser';
+export type { HtmlMathMode, RenderToHtmlOptions } from './core/html';
+export type { MarkdownStreamMetrics } from './core/metrics';
+export type {
+  PlainTextBlockMode,
+  PlainTextLinkMode,
+  PlainTextOptions,
+} from './core/plain-text';
+export type {
+  ReplaySourceOptions,
+  StreamRecorder,
+  StreamRecorderOptions,
+  StreamRecording,
+  StreamRecordingChunk,
+} from './core/recording';
+export type {
+  ChunkTransform,
+  ReplaceTransformOptions,
+} from './core/transforms';
+export type { MarkdownStreamRetryOptions } from './core/retry';
+export type { StreamErrorBlockProps } from './renderers/StreamErrorBlock';
+export type { ServerSentEvent, SSESourceOptions } from './sources/sse';
+export type { XHRSourceRequest } from './sources/xhr';
+export type { WebSocketSourceRequest } from './sources/websocket';
+export type {
+  EventEmitterLike,
+  EventEmitterSourceOptions,
+} from './sources/event-emitter';
+export type {
+  ConversationMessage,
+  ConversationMessageInput,
+  ConversationRole,
+  UseMarkdownConversationOptions,
+  UseMarkdownConversationResult,
+} from './hooks/useMarkdownConversation';
 export { useMarkdownStream } from './hooks/useMarkdownStream';
+export { useMarkdownConversation } from './hooks/useMarkdownConversation';
+export { useReduceMotion } from './hooks/useReduceMotion';
+export {
+  anthropicMessagesExtractor,
+  createJsonPathExtractor,
+  openAIChatExtractor,
+} from './core/extractors';
+export { createReplaceTransform } from './core/transforms';
+export {
+  createReplaySource,
+  createStreamRecorder,
+  createStreamRecording,
+} from './core/recording';
+export { createSSESource, SSEParser } from './sources/sse';
+export { createXHRSource, XHRSourceError } from './sources/xhr';
+export {
+  createWebSocketSource,
+  WebSocketSourceError,
+} from './sources/websocket';
+export { createEventEmitterSource } from './sources/event-emitter';
 export { parseMarkdown } from './core/parser';
+export { createIncrementalParser } from './core/incremental-parser';
+export { toPlainText } from './core/plain-text';
+export { renderToHtml } from './core/html';
+export { texToSpeech } from './core/spoken-math';
+export { texToMathML } from './core/tex-mathml';
 export { lightTheme, darkTheme, resolveTheme } from './core/themes';
+export { estimateBlockHeight } from './renderers/VirtualizedBlockList';
@@ -22,6 +22,7 @@ const fallbackFontFamily = Platform.select({
 
 export function CodeBlock({
   value,
+  language,
   theme,
   containerStyle,
   codeStyle,
@@ -41,6 +42,7 @@ export function CodeBlock({
   const showCopyButton = typeof onCopyPress === 'function';
   const copyLabel =
     copyState === 'copied' ? 'Copied' : (copyButtonLabel ?? 'Copy');
+  const codeLabel = `${language ? `${language} code` : 'Code'}: ${value}`;
 
   const handleCopyPress = () => {
     if (!onCopyPress) {
@@ -88,7 +90,17 @@ export function CodeBlock({
     >
       {showCopyButton ? (
         <View style={styles.copyRow}>
-          <Pressable style={styles.copyButton} onPress={handleCopyPress}>
+          <Pressable
+            style={styles.copyButton}
+            onPress={handleCopyPress}
+            accessibilityRole="button"
+            accessibilityLabel={
+              copyState === 'copied'
+                ? 'Copied'
+                : (copyButtonLabel ?? 'Copy code')
+            }
+            accessibilityLiveRegion="polite"
+          >
             <Text
               style={[
                 styles.copyButtonText,
@@ -105,26 +117,32 @@ export function CodeBlock({
           </Pressable>
         </View>
       ) : null}
-      {lines.map((line, index) => (
-        <View key={`line-${index}`} style={styles.lineContainer}>
-          {showLineNumbers ? (
-            <Text style={[styles.lineNumber, { color: theme.mutedTextColor }]}>
-              {index + 1}
+      {/* Read the code as one element instead of line by line, and without
+          line numbers. */}
+      <View accessible accessibilityLabel={codeLabel}>
+        {lines.map((line, index) => (
+          <View key={`line-${index}`} style={styles.lineContainer}>
+            {showLineNumbers ? (
+              <Text
+                style={[styles.lineNumber, { color: theme.mutedTextColor }]}
+              >
+                {index + 1}
+              </Text>
+            ) : null}
+            <Text
+              style={[
+                styles.codeText,
+                {
+                  color: theme.codeTextColor,
+                },
+                codeStyle,
+              ]}
+            >
+              {line.length > 0 ? line : ' '}
             </Text>
-          ) : null}
-          <Text
-            style={[
-              styles.codeText,
-              {
-                color: theme.codeTextColor,
-              },
-              codeStyle,
-            ]}
-          >
-            {line.length > 0 ? line : ' '}
-          </Text>
-        </View>
-      ))}
+          </View>
+        ))}
+      </View>
     </View>
   );
 }
@@ -95,6 +95,8 @@ export function ImageBlock({
     return (
       <View style={styles.mediaContainer}>
         <Image
+          accessible
+          accessibilityRole="image"
           accessibilityLabel={alt}
           source={{ uri: url }}
           style={[
@@ -168,6 +170,8 @@ export function ImageBlock({
       <Pressable
         onPress={onPress}
         onLongPress={onLongPress}
+        accessibilityRole="imagebutton"
+        accessibilityLabel={alt || 'Image'}
         style={styles.pressable}
       >
         {figure}
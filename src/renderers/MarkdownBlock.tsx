@@ -0,0 +1,81 @@
+import { Fragment, memo } from 'react';
+import type { ReactNode } from 'react';
+import type { Content } from 'mdast';
+
+export interface MarkdownBlockProps {
+  node: Content;
+  blockKey: string;
+  /**
+   * Changes whenever anything that affects rendering (theme, components,
+   * enabled features) changes, forcing every block to re-render.
+   */
+  renderVersion: unknown;
+  render: (node: Content, key: string) => ReactNode;
+}
+
+/**
+ * Key for a top-level block that survives appends: blocks are identified by
+ * type and start offset, which do not change as text is added after them.
+ */
+export function getBlockKey(node: Content, index: number): string {
+  const offset = node.position?.start.offset;
+  return offset == null ? `block-${index}` : `${node.type}-${offset}`;
+}
+
+/**
+ * Structural equality of two mdast nodes, ignoring source positions. Nodes
+ * reused by the incremental parser short-circuit on identity.
+ */
+export function isSameBlock(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) {
+      return false;
+    }
+    return a.every((item, index) => isSameBlock(item, b[index]));
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const leftKeys = Object.keys(left).filter((key) => key !== 'position');
+  const rightKeys = Object.keys(right).filter((key) => key !== 'position');
+  if (leftKeys.length !== rightKeys.length) {
+    return false;
+  }
+  return leftKeys.every((key) => isSameBlock(left[key], right[key]));
+}
+
+function areBlockPropsEqual(
+  previous: MarkdownBlockProps,
+  next: MarkdownBlockProps
+): boolean {
+  // `render` is recreated on every parent render; it only matters when the
+  // node or the render version changed.
+  return (
+    previous.blockKey === next.blockKey &&
+    previous.renderVersion === next.renderVersion &&
+    isSameBlock(previous.node, next.node)
+  );
+}
+
+/**
+ * Renders one top-level block and skips re-rendering while its content is
+ * unchanged, so streaming only re-renders the block being written.
+ */
+export const MarkdownBlock = memo(function MarkdownBlock({
+  node,
+  blockKey,
+  render,
+}: MarkdownBlockProps) {
+  return <Fragment>{render(node, blockKey)}</Fragment>;
+}, areBlockPropsEqual);
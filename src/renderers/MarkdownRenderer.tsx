@@ -2,7 +2,9 @@ import {
   Fragment,
   cloneElement,
   isValidElement,
+  useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react';
 import type { ReactNode } from 'react';
@@ -35,12 +37,18 @@ import { MathBlock, type MathBlockProps } from './MathBlock';
 import { ImageBlock, type ImageBlockProps } from './ImageBlock';
 import { TextBlock } from './TextBlock';
 import { TableBlock, type TableBlockProps } from './TableBlock';
+import { MarkdownBlock, getBlockKey } from './MarkdownBlock';
+import {
+  VirtualizedBlockList,
+  type VirtualizedListProps,
+} from './VirtualizedBlockList';
 import {
   resolveTheme,
   type MarkdownTheme,
   type ThemePreference,
 } from '../core/themes';
 import { INCOMPLETE_LINK_PLACEHOLDER } from '../core/incomplete-markdown';
+import { texToSpeech } from '../core/spoken-math';
 
 export interface MarkdownRendererComponents {
   codeBlock?: (props: CodeBlockProps) => ReactNode;
@@ -67,6 +75,17 @@ export interface MarkdownRendererProps {
   enableImageLightbox?: boolean;
   onBlockLongPress?: (payload: { node: Content }) => void;
   blockLongPressDelay?: number;
+  /**
+   * Renders top-level blocks in a FlatList instead of a plain View. The list
+   * scrolls on its own, so it must not be nested in a vertical ScrollView.
+   */
+  virtualized?: boolean;
+  virtualizedListProps?: VirtualizedListProps;
+  /**
+   * Height estimate for blocks that have not been measured yet. Only used
+   * when `virtualized` is set.
+   */
+  estimateBlockHeight?: (node: Content) => number;
 }
 
 interface RenderContext {
@@ -114,6 +133,9 @@ export function MarkdownRenderer({
   enableImageLightbox = false,
   onBlockLongPress,
   blockLongPressDelay = 300,
+  virtualized = false,
+  virtualizedListProps,
+  estimateBlockHeight,
 }: MarkdownRendererProps) {
   const resolvedTheme = useMemo(() => resolveTheme(theme), [theme]);
   const [lightboxImage, setLightboxImage] = useState<{
@@ -133,9 +155,58 @@ export function MarkdownRenderer({
     return { backgroundColor: resolvedTheme.backgroundColor };
   }, [resolvedTheme.backgroundColor]);
 
+  // Memoized blocks keep the closures of their last render, so handlers are
+  // read from a ref at press time instead of being captured.
+  const handlersRef = useRef({
+    onLinkPress,
+    onCodeCopy,
+    onImagePress,
+    onBlockLongPress,
+  });
+
+  useEffect(() => {
+    handlersRef.current = {
+      onLinkPress,
+      onCodeCopy,
+      onImagePress,
+      onBlockLongPress,
+    };
+  }, [onBlockLongPress, onCodeCopy, onImagePress, onLinkPress]);
+
+  const hasCodeCopyHandler = Boolean(onCodeCopy);
+  const hasImagePressHandler = Boolean(onImagePress);
+  const hasBlockLongPress = Boolean(onBlockLongPress);
+  const renderVersion = useMemo(
+    () => ({
+      blockLongPressDelay,
+      codeCopyLabel,
+      components,
+      enableCodeCopy,
+      enableImageLightbox,
+      hasBlockLongPress,
+      hasCodeCopyHandler,
+      hasImagePressHandler,
+      resolvedTheme,
+      showCodeLineNumbers,
+    }),
+    [
+      blockLongPressDelay,
+      codeCopyLabel,
+      components,
+      enableCodeCopy,
+      enableImageLightbox,
+      hasBlockLongPress,
+      hasCodeCopyHandler,
+      hasImagePressHandler,
+      resolvedTheme,
+      showCodeLineNumbers,
+    ]
+  );
+
   const openLink = async (url: string) => {
-    if (onLinkPress) {
-      onLinkPress(url);
+    const { onLinkPress: handleLinkPress } = handlersRef.current;
+    if (handleLinkPress) {
+      handleLinkPress(url);
       return;
     }
 
@@ -257,6 +328,7 @@ export function MarkdownRenderer({
               styles.link,
               { color: resolvedTheme.linkColor },
             ]}
+            accessibilityRole="link"
             onPress={() => {
               void openLink(linkNode.url);
             }}
@@ -283,6 +355,7 @@ export function MarkdownRenderer({
                 value,
                 inline: true,
                 theme: resolvedTheme,
+                accessibilityLabel: texToSpeech(value),
               })}
             </Fragment>
           );
@@ -337,7 +410,7 @@ export function MarkdownRenderer({
     ];
 
     const element = (
-      <TextBlock style={headingStyles}>
+      <TextBlock style={headingStyles} accessibilityRole="header">
         {renderInlineChildren(heading, key)}
       </TextBlock>
     );
@@ -366,10 +439,11 @@ export function MarkdownRenderer({
 
   const renderCodeBlock = (code: Code, key: string) => {
     const handleCopyPress = () => {
+      const { onCodeCopy: handleCodeCopy } = handlersRef.current;
       let handledByUser = false;
-      if (onCodeCopy) {
+      if (handleCodeCopy) {
         handledByUser =
-          onCodeCopy({ value: code.value, language: code.lang }) === true;
+          handleCodeCopy({ value: code.value, language: code.lang }) === true;
       }
       if (!handledByUser && enableCodeCopy) {
         handledByUser = attemptClipboardCopy(code.value);
@@ -451,9 +525,12 @@ export function MarkdownRenderer({
     })();
 
     const element = (
-      <View style={styles.listContainer}>
+      <View style={styles.listContainer} accessibilityRole="list">
         {list.children.map((item, index) => {
           const marker = list.ordered ? `${start + index}.` : '\u2022';
+          const { checked } = item as ListItem;
+          const taskState =
+            checked == null ? '' : checked ? ', checked' : ', not checked';
           return (
             <View key={`${key}-${index}`} style={styles.listItem}>
               <Text
@@ -461,6 +538,7 @@ export function MarkdownRenderer({
                   markerStyle,
                   { color: resolvedTheme.textColor, width: markerWidth },
                 ]}
+                accessibilityLabel={`Item ${index + 1} of ${list.children.length}${taskState}`}
               >
                 {marker}
               </Text>
@@ -482,8 +560,9 @@ export function MarkdownRenderer({
   };
 
   const handleImagePress = (image: { url: string; alt?: string }) => {
-    if (onImagePress) {
-      const handled = onImagePress(image);
+    const { onImagePress: handleUserImagePress } = handlersRef.current;
+    if (handleUserImagePress) {
+      const handled = handleUserImagePress(image);
       if (handled === true) {
         return;
       }
@@ -529,7 +608,7 @@ export function MarkdownRenderer({
                 alt: image.alt ?? undefined,
               }),
             onLongPress: onBlockLongPress
-              ? () => onBlockLongPress({ node: image })
+              ? () => handlersRef.current.onBlockLongPress?.({ node: image })
               : undefined,
           })}
         </Fragment>
@@ -557,7 +636,7 @@ export function MarkdownRenderer({
           onBlockLongPress
             ? (event) => {
                 event.stopPropagation();
-                onBlockLongPress({ node: image });
+                handlersRef.current.onBlockLongPress?.({ node: image });
               }
             : undefined
         }
@@ -594,6 +673,9 @@ export function MarkdownRenderer({
         alignments={alignments}
         theme={resolvedTheme}
         renderInlineChildren={renderInlineChildren}
+        onLinkPress={(url) => {
+          void openLink(url);
+        }}
       />
     );
 
@@ -636,6 +718,7 @@ export function MarkdownRenderer({
                 value,
                 inline: false,
                 theme: resolvedTheme,
+                accessibilityLabel: texToSpeech(value),
               })}
             </Fragment>
           );
@@ -691,7 +774,9 @@ export function MarkdownRenderer({
       return (
         <Pressable
           key={key}
-          onLongPress={() => onBlockLongPress?.({ node: node as Content })}
+          onLongPress={() =>
+            handlersRef.current.onBlockLongPress?.({ node: node as Content })
+          }
           delayLongPress={blockLongPressDelay}
           style={styles.blockPressable}
         >
@@ -707,7 +792,9 @@ export function MarkdownRenderer({
     return (
       <Pressable
         key={key}
-        onLongPress={() => onBlockLongPress?.({ node: node as Content })}
+        onLongPress={() =>
+          handlersRef.current.onBlockLongPress?.({ node: node as Content })
+        }
         delayLongPress={blockLongPressDelay}
         style={styles.blockPressable}
       >
@@ -768,12 +855,37 @@ export function MarkdownRenderer({
       </Modal>
     ) : null;
 
+  if (virtualized) {
+    return (
+      <Fragment>
+        <VirtualizedBlockList
+          blocks={ast.children as Content[]}
+          renderVersion={renderVersion}
+          render={renderNode}
+          style={[styles.container, containerStyle]}
+          estimateBlockHeight={estimateBlockHeight}
+          listProps={virtualizedListProps}
+        />
+        {lightbox}
+      </Fragment>
+    );
+  }
+
   return (
     <Fragment>
       <View style={[styles.container, containerStyle]}>
-        {ast.children.map((node, index) =>
-          renderNode(node as Content, `block-${index}`)
-        )}
+        {ast.children.map((node, index) => {
+          const blockKey = getBlockKey(node as Content, index);
+          return (
+            <MarkdownBlock
+              key={blockKey}
+              node={node as Content}
+              blockKey={blockKey}
+              renderVersion={renderVersion}
+              render={renderNode}
+            />
+          );
+        })}
       </View>
       {lightbox}
     </Fragment>
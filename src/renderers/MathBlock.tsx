@@ -2,11 +2,14 @@ import { useMemo } from 'react';
 import { StyleSheet, Text, View } from 'react-native';
 import type { StyleProp, TextStyle, ViewStyle } from 'react-native';
 import type { MarkdownTheme } from '../core/themes';
+import { texToSpeech } from '../core/spoken-math';
 
 type MathViewProps = {
   math: string;
   style?: StyleProp<ViewStyle>;
   color?: string;
+  accessible?: boolean;
+  accessibilityLabel?: string;
 };
 
 type MathViewComponent = React.ComponentType<MathViewProps>;
@@ -39,6 +42,11 @@ export interface MathBlockProps {
   inline?: boolean;
   containerStyle?: StyleProp<ViewStyle>;
   textStyle?: StyleProp<TextStyle>;
+  /**
+   * Spoken form of the formula. Defaults to a reading generated from the TeX
+   * source with `texToSpeech`.
+   */
+  accessibilityLabel?: string;
 }
 
 export function MathBlock({
@@ -47,8 +55,13 @@ export function MathBlock({
   theme,
   containerStyle,
   textStyle,
+  accessibilityLabel,
 }: MathBlockProps) {
   const MathView = useMemo(resolveMathView, []);
+  const spokenLabel = useMemo(
+    () => accessibilityLabel ?? texToSpeech(value),
+    [accessibilityLabel, value]
+  );
 
   if (!value.trim()) {
     return null;
@@ -59,6 +72,8 @@ export function MathBlock({
       <MathView
         math={value}
         color={theme.textColor}
+        accessible
+        accessibilityLabel={spokenLabel}
         style={[
           inline ? styles.inlineMathView : styles.blockMathView,
           { backgroundColor: inline ? undefined : theme.codeBackgroundColor },
@@ -72,6 +87,7 @@ export function MathBlock({
     return (
       <Text
         style={[styles.inlineFallback, { color: theme.textColor }, textStyle]}
+        accessibilityLabel={spokenLabel}
       >
         {`$${value}$`}
       </Text>
@@ -80,6 +96,8 @@ export function MathBlock({
 
   return (
     <View
+      accessible
+      accessibilityLabel={spokenLabel}
       style={[
         styles.blockFallback,
         {
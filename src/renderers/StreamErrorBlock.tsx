@@ -0,0 +1,104 @@
+import { useEffect } from 'react';
+import {
+  AccessibilityInfo,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+import type { MarkdownTheme } from '../core/themes';
+
+export interface StreamErrorBlockProps {
+  error: unknown;
+  theme: MarkdownTheme;
+  onRetry?: () => void;
+  retryLabel?: string;
+  containerStyle?: StyleProp<ViewStyle>;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  if (typeof error === 'string' && error) {
+    return error;
+  }
+  return 'The stream was interrupted.';
+}
+
+export function StreamErrorBlock({
+  error,
+  theme,
+  onRetry,
+  retryLabel,
+  containerStyle,
+}: StreamErrorBlockProps) {
+  const message = describeError(error);
+
+  // The block appears away from the focused element, so screen readers would
+  // not notice it otherwise.
+  useEffect(() => {
+    AccessibilityInfo.announceForAccessibility(message);
+  }, [message]);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          borderColor: theme.codeBorderColor,
+          backgroundColor: theme.quoteBackgroundColor,
+        },
+        containerStyle,
+      ]}
+    >
+      <Text
+        style={[styles.message, { color: theme.mutedTextColor }]}
+        accessibilityRole="alert"
+      >
+        {message}
+      </Text>
+      {onRetry ? (
+        <Pressable
+          style={styles.retryButton}
+          onPress={onRetry}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.retryText, { color: theme.linkColor }]}>
+            {retryLabel ?? 'Retry'}
+          </Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginVertical: 8,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  retryButton: {
+    marginLeft: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  retryText: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+});
@@ -13,11 +13,12 @@ import {
   StyleSheet,
   Text,
   View,
+  type AccessibilityActionEvent,
   type LayoutChangeEvent,
 } from 'react-native';
 import type { StyleProp, ViewStyle } from 'react-native';
 import type { Node, Parent } from 'unist';
-import type { TableCell, TableRow } from 'mdast';
+import type { Link, TableCell, TableRow } from 'mdast';
 import type { MarkdownTheme } from '../core/themes';
 
 export interface TableBlockProps {
@@ -26,6 +27,11 @@ export interface TableBlockProps {
   theme: MarkdownTheme;
   containerStyle?: StyleProp<ViewStyle>;
   renderInlineChildren: (parent: Parent, keyPrefix: string) => ReactNode[];
+  /**
+   * Opens links from the table's accessibility actions. The table is read as
+   * one element, so its links are not focusable on their own.
+   */
+  onLinkPress?: (url: string) => void;
 }
 
 const FONT_SIZE = 16; // This is currently fixed
@@ -124,6 +130,41 @@ function getTextContent(node: Node): string {
   return '';
 }
 
+/**
+ * Screen reader summary of the table. Cells are laid out column by column,
+ * so the table is read as one element, row by row, with each value prefixed
+ * by its column header.
+ */
+function describeTable(rows: TableRow[], columnCount: number): string {
+  const [header, ...body] = rows;
+  const headers = header?.children.map((cell) => getTextContent(cell).trim());
+  const rowCount = `${body.length} ${body.length === 1 ? 'row' : 'rows'}`;
+  const columns = `${columnCount} ${columnCount === 1 ? 'column' : 'columns'}`;
+  const lines = [`Table, ${rowCount}, ${columns}.`];
+  if (headers?.some(Boolean)) {
+    lines.push(`Columns: ${headers.filter(Boolean).join(', ')}.`);
+  }
+  body.forEach((row, rowIndex) => {
+    const cells = row.children.map((cell, columnIndex) => {
+      const text = getTextContent(cell).trim();
+      const name = headers?.[columnIndex];
+      return name ? `${name}: ${text}` : text;
+    });
+    lines.push(`Row ${rowIndex + 1}: ${cells.join(', ')}.`);
+  });
+  return lines.join(' ');
+}
+
+function collectLinks(node: Node, links: Link[]) {
+  if (node.type === 'link') {
+    links.push(node as Link);
+    return;
+  }
+  if ('children' in node && Array.isArray(node.children)) {
+    node.children.forEach((child) => collectLinks(child as Node, links));
+  }
+}
+
 // Get max estimated width for each column
 function getMaxColumnWidths(rows: TableRow[]): number[] {
   const widths: number[] = [];
@@ -347,6 +388,7 @@ export function TableBlock({
   theme,
   containerStyle,
   renderInlineChildren,
+  onLinkPress,
 }: TableBlockProps) {
   const [tableWidth, setTableWidth] = useState(0);
   const [rowHeights, setRowHeights] = useState<Map<number, number>>(new Map());
@@ -362,6 +404,45 @@ export function TableBlock({
 
   const maxWidthsByColumn = useMemo(() => getMaxColumnWidths(rows), [rows]);
 
+  const links = useMemo(() => {
+    const result: Link[] = [];
+    rows.forEach((row) => collectLinks(row, result));
+    return result;
+  }, [rows]);
+
+  const accessibilityLabel = useMemo(() => {
+    const summary = describeTable(rows, columnCount);
+    if (links.length === 0 || !onLinkPress) {
+      return summary;
+    }
+    const count = `${links.length} ${links.length === 1 ? 'link' : 'links'}`;
+    return `${summary} ${count}, available as actions.`;
+  }, [columnCount, links.length, onLinkPress, rows]);
+
+  const accessibilityActions = useMemo(
+    () =>
+      onLinkPress
+        ? links.map((link, index) => ({
+            name: `link-${index}`,
+            label: `Open ${getTextContent(link).trim() || link.url}`,
+          }))
+        : undefined,
+    [links, onLinkPress]
+  );
+
+  const handleAccessibilityAction = useCallback(
+    (event: AccessibilityActionEvent) => {
+      const { actionName } = event.nativeEvent;
+      const link = actionName.startsWith('link-')
+        ? links[Number(actionName.slice('link-'.length))]
+        : undefined;
+      if (link) {
+        onLinkPress?.(link.url);
+      }
+    },
+    [links, onLinkPress]
+  );
+
   const columnWidths = useMemo(() => {
     if (tableWidth === 0) return [];
     return calculateColumnWidths(maxWidthsByColumn, tableWidth);
@@ -439,7 +520,13 @@ export function TableBlock({
         containerStyle,
       ]}
     >
-      <View style={styles.tableBody}>
+      <View
+        style={styles.tableBody}
+        accessible
+        accessibilityLabel={accessibilityLabel}
+        accessibilityActions={accessibilityActions}
+        onAccessibilityAction={handleAccessibilityAction}
+      >
         {/* Fixed first column */}
         <TableColumn
           rows={rows}
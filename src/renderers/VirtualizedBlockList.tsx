@@ -0,0 +1,166 @@
+import { useCallback, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { FlatList, View } from 'react-native';
+import type {
+  FlatListProps,
+  LayoutChangeEvent,
+  ListRenderItemInfo,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import type { Content } from 'mdast';
+import { MarkdownBlock, getBlockKey } from './MarkdownBlock';
+
+export type VirtualizedListProps = Omit<
+  FlatListProps<Content>,
+  'data' | 'renderItem' | 'keyExtractor' | 'getItemLayout' | 'extraData'
+>;
+
+export interface VirtualizedBlockListProps {
+  blocks: Content[];
+  renderVersion: unknown;
+  render: (node: Content, key: string) => ReactNode;
+  style?: StyleProp<ViewStyle>;
+  estimateBlockHeight?: (node: Content) => number;
+  listProps?: VirtualizedListProps;
+}
+
+const LINE_HEIGHT = 22;
+const CHARACTERS_PER_LINE = 40;
+
+function textLength(node: unknown): number {
+  const { value, children } = node as { value?: unknown; children?: unknown };
+  const own = typeof value === 'string' ? value.length : 0;
+  if (!Array.isArray(children)) {
+    return own;
+  }
+  return children.reduce<number>((sum, child) => sum + textLength(child), own);
+}
+
+function estimateTextHeight(node: Content): number {
+  return (
+    LINE_HEIGHT * Math.max(1, Math.ceil(textLength(node) / CHARACTERS_PER_LINE))
+  );
+}
+
+/**
+ * Rough height of a rendered block, used until the block has been measured.
+ */
+export function estimateBlockHeight(node: Content): number {
+  switch (node.type) {
+    case 'heading':
+      return 40;
+    case 'paragraph':
+      return estimateTextHeight(node) + 12;
+    case 'code':
+      return node.value.split('\n').length * 20 + 48;
+    case 'list':
+      return node.children.length * 6 + estimateTextHeight(node) + 16;
+    case 'blockquote':
+      return estimateTextHeight(node) + 24;
+    case 'table':
+      return node.children.length * 40 + 16;
+    case 'image':
+      return 220;
+    case 'math':
+      return 60;
+    case 'thematicBreak':
+      return 25;
+    default:
+      return 40;
+  }
+}
+
+/**
+ * FlatList of top-level blocks. Measured heights replace the estimates once
+ * a block has been laid out, and memoized blocks keep appends at the end
+ * from re-rendering the rest of the document.
+ */
+export function VirtualizedBlockList({
+  blocks,
+  renderVersion,
+  render,
+  style,
+  estimateBlockHeight: estimate = estimateBlockHeight,
+  listProps,
+}: VirtualizedBlockListProps) {
+  const measuredHeightsRef = useRef(new Map<string, number>());
+  const offsetsRef = useRef<{
+    blocks: Content[];
+    offsets: number[];
+  } | null>(null);
+
+  const handleLayout = useCallback((key: string, event: LayoutChangeEvent) => {
+    const { height } = event.nativeEvent.layout;
+    if (measuredHeightsRef.current.get(key) !== height) {
+      measuredHeightsRef.current.set(key, height);
+      offsetsRef.current = null;
+    }
+  }, []);
+
+  const getHeight = useCallback(
+    (node: Content, index: number) =>
+      measuredHeightsRef.current.get(getBlockKey(node, index)) ??
+      estimate(node),
+    [estimate]
+  );
+
+  const getItemLayout = useCallback(
+    (data: ArrayLike<Content> | null | undefined, index: number) => {
+      const items = (data ?? []) as Content[];
+      let cache = offsetsRef.current;
+      if (!cache || cache.blocks !== items) {
+        const offsets: number[] = [];
+        let offset = 0;
+        items.forEach((node, itemIndex) => {
+          offsets.push(offset);
+          offset += getHeight(node, itemIndex);
+        });
+        cache = { blocks: items, offsets };
+        offsetsRef.current = cache;
+      }
+
+      const node = items[index];
+      return {
+        length: node ? getHeight(node, index) : 0,
+        offset: cache.offsets[index] ?? 0,
+        index,
+      };
+    },
+    [getHeight]
+  );
+
+  const keyExtractor = useCallback(
+    (node: Content, index: number) => getBlockKey(node, index),
+    []
+  );
+
+  const renderItem = useCallback(
+    ({ item, index }: ListRenderItemInfo<Content>) => {
+      const blockKey = getBlockKey(item, index);
+      return (
+        <View onLayout={(event) => handleLayout(blockKey, event)}>
+          <MarkdownBlock
+            node={item}
+            blockKey={blockKey}
+            renderVersion={renderVersion}
+            render={render}
+          />
+        </View>
+      );
+    },
+    [handleLayout, render, renderVersion]
+  );
+
+  return (
+    <FlatList
+      {...listProps}
+      style={[style, listProps?.style]}
+      data={blocks}
+      extraData={renderVersion}
+      keyExtractor={keyExtractor}
+      getItemLayout={getItemLayout}
+      renderItem={renderItem}
+    />
+  );
+}
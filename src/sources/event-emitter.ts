@@ -0,0 +1,125 @@
+import { PushQueue } from '../core/push-queue';
+import type { MarkdownStreamSourceContext } from '../core/stream-source';
+
+type Listener = (payload: unknown) => void;
+
+/**
+ * Matches React Native's `NativeEventEmitter`/`DeviceEventEmitter` (which
+ * return a subscription) as well as Node-style emitters (`removeListener`/`off`).
+ */
+export interface EventEmitterLike {
+  addListener: (event: string, listener: Listener) => unknown;
+  removeListener?: (event: string, listener: Listener) => void;
+  off?: (event: string, listener: Listener) => void;
+}
+
+export interface EventEmitterSourceOptions {
+  /**
+   * Event carrying chunks. Defaults to `'data'`.
+   */
+  dataEvent?: string;
+  /**
+   * Event that ends the stream. Defaults to `'end'`.
+   */
+  endEvent?: string;
+  /**
+   * Event that fails the stream with its payload. Defaults to `'error'`.
+   */
+  errorEvent?: string;
+  /**
+   * Maps data payloads to chunks; return `null` or `undefined` to skip one.
+   */
+  select?: (payload: unknown) => unknown;
+  /**
+   * Called after the listeners are attached, e.g. to ask a native module to
+   * start pushing. Returning a function registers it as extra teardown.
+   */
+  onStart?: (context: MarkdownStreamSourceContext) => void | (() => void);
+}
+
+function toError(payload: unknown): unknown {
+  if (payload instanceof Error) {
+    return payload;
+  }
+  const message =
+    typeof payload === 'string'
+      ? payload
+      : (payload as { message?: unknown })?.message;
+  return new Error(
+    `[react-native-markdown-stream] ${
+      typeof message === 'string' && message ? message : 'Stream error event'
+    }`
+  );
+}
+
+/**
+ * Subscribes to an event emitter per run and yields the payloads of
+ * `dataEvent` until `endEvent` fires. Events received before `start()` reads
+ * them are buffered. All listeners are removed when the stream ends, fails
+ * or is stopped.
+ */
+export function createEventEmitterSource(
+  emitter: EventEmitterLike,
+  {
+    dataEvent = 'data',
+    endEvent = 'end',
+    errorEvent = 'error',
+    select,
+    onStart,
+  }: EventEmitterSourceOptions = {}
+): (context: MarkdownStreamSourceContext) => AsyncIterable<unknown> {
+  return (context) => {
+    const { signal } = context;
+    const teardowns: Array<() => void> = [];
+
+    const queue = new PushQueue<unknown>(() => {
+      teardowns.splice(0).forEach((teardown) => teardown());
+    });
+
+    if (signal.aborted) {
+      queue.end();
+      return queue;
+    }
+
+    const listen = (event: string, listener: Listener) => {
+      const subscription = emitter.addListener(event, listener) as {
+        remove?: () => void;
+      } | null;
+      teardowns.push(() => {
+        if (typeof subscription?.remove === 'function') {
+          subscription.remove();
+        } else if (emitter.removeListener) {
+          emitter.removeListener(event, listener);
+        } else {
+          emitter.off?.(event, listener);
+        }
+      });
+    };
+
+    const handleAbort = () => {
+      queue.end();
+    };
+    signal.addEventListener('abort', handleAbort);
+    teardowns.push(() => signal.removeEventListener('abort', handleAbort));
+
+    listen(dataEvent, (payload) => {
+      const chunk = select ? select(payload) : payload;
+      if (chunk != null) {
+        queue.push(chunk);
+      }
+    });
+    listen(endEvent, () => queue.end());
+    listen(errorEvent, (payload) => queue.fail(toError(payload)));
+
+    const stop = onStart?.(context);
+    if (typeof stop === 'function') {
+      if (queue.isClosed) {
+        stop();
+      } else {
+        teardowns.push(stop);
+      }
+    }
+
+    return queue;
+  };
+}
@@ -0,0 +1,240 @@
+import {
+  toAsyncIterable,
+  type MarkdownStreamSource,
+  type MarkdownStreamSourceContext,
+} from '../core/stream-source';
+
+export interface ServerSentEvent {
+  /**
+   * Event type from the `event:` field. Defaults to `message`.
+   */
+  event: string;
+  /**
+   * Joined `data:` lines of the event, separated by `\n`.
+   */
+  data: string;
+  /**
+   * Last event id seen on the stream, carried over between events as per the SSE spec.
+   */
+  id?: string;
+  /**
+   * Reconnection time in milliseconds from the `retry:` field.
+   */
+  retry?: number;
+}
+
+export interface SSESourceOptions {
+  /**
+   * Data payload that marks the end of the stream. Set to `null` to disable.
+   * Defaults to `[DONE]`.
+   */
+  doneSentinel?: string | null;
+  /**
+   * Only events with these types are yielded. Defaults to every event type.
+   */
+  eventTypes?: string[];
+  /**
+   * Invoked for every parsed event, including the ones filtered out of the markdown output.
+   */
+  onEvent?: (event: ServerSentEvent) => void;
+}
+
+const DEFAULT_DONE_SENTINEL = '[DONE]';
+
+/**
+ * Incremental `text/event-stream` parser. Chunks may split lines, fields or
+ * `\r\n` pairs at any position; events are emitted once their blank line arrives.
+ */
+export class SSEParser {
+  private pendingLine = '';
+  private skipLineFeed = false;
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+  private started = false;
+
+  push(chunk: string): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    let text = chunk;
+
+    // An empty chunk must not forget a `\r` that may still be followed by `\n`.
+    if (!text) {
+      return events;
+    }
+    // A byte order mark is only allowed at the start of the stream.
+    if (!this.started) {
+      this.started = true;
+      if (text.startsWith('\uFEFF')) {
+        text = text.slice(1);
+      }
+    }
+    if (this.skipLineFeed && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.skipLineFeed = false;
+
+    let lineStart = 0;
+    for (let index = 0; index < text.length; index += 1) {
+      const char = text[index];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      const line = this.pendingLine + text.slice(lineStart, index);
+      this.pendingLine = '';
+
+      if (char === '\r') {
+        if (index + 1 === text.length) {
+          this.skipLineFeed = true;
+        } else if (text[index + 1] === '\n') {
+          index += 1;
+        }
+      }
+      lineStart = index + 1;
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.pendingLine += text.slice(lineStart);
+    return events;
+  }
+
+  /**
+   * Dispatches whatever is buffered when the underlying stream ends without a
+   * trailing blank line.
+   */
+  flush(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    if (this.pendingLine) {
+      const line = this.pendingLine;
+      this.pendingLine = '';
+      this.processLine(line);
+    }
+
+    const event = this.dispatch();
+    if (event) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+      default:
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const dataLines = this.dataLines;
+    const eventType = this.eventType;
+    this.dataLines = [];
+    this.eventType = '';
+
+    if (dataLines.length === 0) {
+      return null;
+    }
+
+    return {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry,
+    };
+  }
+}
+
+/**
+ * Wraps a raw `text/event-stream` body (strings or bytes) into a source that
+ * yields only the markdown carried in the events' `data:` fields. When retried,
+ * a factory `source` receives the last event id seen so it can send `Last-Event-ID`.
+ */
+export function createSSESource(
+  source: MarkdownStreamSource<unknown>,
+  {
+    doneSentinel = DEFAULT_DONE_SENTINEL,
+    eventTypes,
+    onEvent,
+  }: SSESourceOptions = {}
+): (context: MarkdownStreamSourceContext) => AsyncIterable<string> {
+  let lastEventId: string | undefined;
+
+  return async function* sseSource({ signal, attempt, offset }) {
+    const parser = new SSEParser();
+    if (attempt === 0) {
+      lastEventId = undefined;
+    }
+    const acceptedTypes = eventTypes ? new Set(eventTypes) : null;
+
+    // Returns true once the done sentinel has been seen.
+    function* emit(
+      events: ServerSentEvent[]
+    ): Generator<string, boolean, unknown> {
+      for (const event of events) {
+        lastEventId = event.id;
+        onEvent?.(event);
+        if (doneSentinel != null && event.data.trim() === doneSentinel) {
+          return true;
+        }
+        if (acceptedTypes && !acceptedTypes.has(event.event)) {
+          continue;
+        }
+        if (event.data) {
+          yield event.data;
+        }
+      }
+      return false;
+    }
+
+    for await (const chunk of toAsyncIterable(source, {
+      signal,
+      resume: { attempt, offset, lastEventId },
+    })) {
+      const done = yield* emit(parser.push(chunk));
+      if (done) {
+        return;
+      }
+    }
+
+    if (!signal.aborted) {
+      yield* emit(parser.flush());
+    }
+  };
+}
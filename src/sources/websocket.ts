@@ -0,0 +1,121 @@
+import { PushQueue } from '../core/push-queue';
+import type { MarkdownStreamSourceContext } from '../core/stream-source';
+
+export interface WebSocketSourceRequest {
+  url: string;
+  protocols?: string | string[];
+  /**
+   * Sent once the socket opens, e.g. the prompt. Objects are JSON-encoded.
+   */
+  message?: string | Record<string, unknown>;
+  /**
+   * Ends the stream (and closes the socket) when it returns `true` for a
+   * message. The message itself is not yielded.
+   */
+  isDone?: (data: unknown) => boolean;
+}
+
+export class WebSocketSourceError extends Error {
+  readonly code: number | null;
+  readonly reason: string;
+
+  constructor(message: string, code: number | null, reason: string) {
+    super(message);
+    this.name = 'WebSocketSourceError';
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+// 1000 is a normal closure, 1005 means the server sent no status code.
+const CLEAN_CLOSE_CODES = new Set([1000, 1005]);
+
+function toChunk(data: unknown): unknown {
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
+
+/**
+ * Opens a WebSocket per run and yields every incoming message. The stream
+ * ends when the socket closes cleanly or `isDone` matches, and fails on
+ * errors or abnormal closures. Stopping the stream closes the socket.
+ *
+ * Binary messages are yielded as `Uint8Array` and decoded as UTF-8; pass an
+ * `extractor` when messages carry JSON envelopes.
+ */
+export function createWebSocketSource(
+  request:
+    | WebSocketSourceRequest
+    | ((context: MarkdownStreamSourceContext) => WebSocketSourceRequest)
+): (context: MarkdownStreamSourceContext) => AsyncIterable<unknown> {
+  return (context) => {
+    const { url, protocols, message, isDone } =
+      typeof request === 'function' ? request(context) : request;
+    const { signal } = context;
+    let socket: WebSocket | null = null;
+
+    const handleAbort = () => {
+      queue.end();
+    };
+
+    const queue = new PushQueue<unknown>(() => {
+      signal.removeEventListener('abort', handleAbort);
+      if (socket && socket.readyState <= WebSocket.OPEN) {
+        socket.close(1000);
+      }
+    });
+
+    if (signal.aborted) {
+      queue.end();
+      return queue;
+    }
+    signal.addEventListener('abort', handleAbort);
+
+    const ws = new WebSocket(url, protocols);
+    socket = ws;
+    ws.binaryType = 'arraybuffer';
+
+    ws.onopen = () => {
+      if (message != null) {
+        ws.send(
+          typeof message === 'string' ? message : JSON.stringify(message)
+        );
+      }
+    };
+    ws.onmessage = (event) => {
+      const data: unknown = event.data;
+      if (isDone?.(data)) {
+        queue.end();
+        return;
+      }
+      queue.push(toChunk(data));
+    };
+    ws.onerror = (event) => {
+      const reason = (event as { message?: string }).message ?? '';
+      queue.fail(
+        new WebSocketSourceError(
+          `[react-native-markdown-stream] WebSocket error${
+            reason ? `: ${reason}` : ''
+          }`,
+          null,
+          reason
+        )
+      );
+    };
+    ws.onclose = (event) => {
+      const code = event.code ?? 1005;
+      if (CLEAN_CLOSE_CODES.has(code)) {
+        queue.end();
+        return;
+      }
+      queue.fail(
+        new WebSocketSourceError(
+          `[react-native-markdown-stream] WebSocket closed with code ${code}`,
+          code,
+          event.reason ?? ''
+        )
+      );
+    };
+
+    return queue;
+  };
+}
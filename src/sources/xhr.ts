@@ -0,0 +1,149 @@
+import { PushQueue } from '../core/push-queue';
+import type { MarkdownStreamSourceContext } from '../core/stream-source';
+
+export interface XHRSourceRequest {
+  url: string;
+  /**
+   * Defaults to `GET`, or `POST` when a `body` is provided.
+   */
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | null;
+  withCredentials?: boolean;
+  /**
+   * Request timeout in milliseconds. `0` (default) disables it.
+   */
+  timeout?: number;
+}
+
+export class XHRSourceError extends Error {
+  readonly status: number;
+  readonly responseText: string;
+
+  constructor(message: string, status: number, responseText: string) {
+    super(message);
+    this.name = 'XHRSourceError';
+    this.status = status;
+    this.responseText = responseText;
+  }
+}
+
+/**
+ * Streams a response through `XMLHttpRequest` progress events, yielding the
+ * newly received part of `responseText` each time. Works on React Native where
+ * `fetch` does not expose `response.body.getReader()`.
+ *
+ * Pass a function to build the request per attempt, e.g. to resume from
+ * `context.offset` when retried.
+ */
+export function createXHRSource(
+  request:
+    | XHRSourceRequest
+    | ((context: MarkdownStreamSourceContext) => XHRSourceRequest)
+): (context: MarkdownStreamSourceContext) => AsyncIterable<string> {
+  return (context) => {
+    const {
+      url,
+      method,
+      headers,
+      body = null,
+      withCredentials = false,
+      timeout = 0,
+    } = typeof request === 'function' ? request(context) : request;
+    const { signal } = context;
+
+    const xhr = new XMLHttpRequest();
+    let seenLength = 0;
+
+    const handleAbort = () => {
+      queue.end();
+    };
+
+    const queue = new PushQueue<string>(() => {
+      signal.removeEventListener('abort', handleAbort);
+      if (xhr.readyState !== XMLHttpRequest.DONE) {
+        xhr.abort();
+      }
+    });
+
+    if (signal.aborted) {
+      queue.end();
+      return queue;
+    }
+    signal.addEventListener('abort', handleAbort);
+
+    const flushResponseText = () => {
+      // The status is known from HEADERS_RECEIVED on. The body of a failed
+      // response is only reported through `XHRSourceError.responseText`.
+      if (
+        xhr.readyState < XMLHttpRequest.HEADERS_RECEIVED ||
+        xhr.status >= 400
+      ) {
+        return;
+      }
+      const text = xhr.responseText ?? '';
+      if (text.length > seenLength) {
+        queue.push(text.slice(seenLength));
+        seenLength = text.length;
+      }
+    };
+
+    // Both handlers must be attached before `send()`: React Native only
+    // delivers incremental responseText when one of them is present.
+    xhr.onprogress = flushResponseText;
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.LOADING) {
+        flushResponseText();
+        return;
+      }
+      if (xhr.readyState !== XMLHttpRequest.DONE || queue.isClosed) {
+        return;
+      }
+      if (xhr.status === 0) {
+        // Network failures and timeouts are reported by their own handlers.
+        return;
+      }
+      if (xhr.status >= 400) {
+        queue.fail(
+          new XHRSourceError(
+            `[react-native-markdown-stream] Request failed with status ${xhr.status}`,
+            xhr.status,
+            xhr.responseText ?? ''
+          )
+        );
+        return;
+      }
+      flushResponseText();
+      queue.end();
+    };
+    xhr.onerror = () => {
+      queue.fail(
+        new XHRSourceError(
+          '[react-native-markdown-stream] Network request failed',
+          xhr.status,
+          ''
+        )
+      );
+    };
+    xhr.ontimeout = () => {
+      queue.fail(
+        new XHRSourceError(
+          '[react-native-markdown-stream] Network request timed out',
+          xhr.status,
+          ''
+        )
+      );
+    };
+
+    xhr.open(method ?? (body != null ? 'POST' : 'GET'), url, true);
+    xhr.responseType = 'text';
+    xhr.withCredentials = withCredentials;
+    xhr.timeout = timeout;
+    Object.entries(headers ?? {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+    xhr.send(body);
+
+    return queue;
+  };
+}